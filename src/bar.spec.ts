@@ -0,0 +1,185 @@
+/*
+ * bar.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MinuteBar, createBarGenerator } from "./bar.js";
+import type { BarGeneratorOptions } from "./bar.js";
+import { createTradingCalendar } from "./calendar.js";
+import { TestSymbol, createTick } from "./testing.js";
+import type { BarData, BarSpec, TapeData } from "./typedef.js";
+
+const createTape = (volumeDelta: number): TapeData => ({
+  type: "turnover",
+  direction: "up",
+  status: "turnover-long",
+  interestDelta: 0,
+  volumeDelta: volumeDelta,
+  amountDelta: 0,
+});
+
+const generateBars = (
+  spec: BarSpec | number,
+  ticks: [number, number, number][],
+  symbol = TestSymbol,
+  options?: BarGeneratorOptions,
+) => {
+  const bars: BarData[] = [];
+  const generator = createBarGenerator(symbol, spec, options);
+
+  generator.addReceiver({ onBar: (bar) => bars.push(bar) });
+
+  ticks.forEach(([time, price, volume]) =>
+    generator.onTick(createTick(price, { symbol, time }), createTape(volume)),
+  );
+
+  return bars;
+};
+
+describe("BarGenerator", () => {
+  it("closes volume bars once the size is reached", () => {
+    const bars = generateBars({ type: "volume", size: 5 }, [
+      [93000, 3000, 3],
+      [93001, 3001, 3],
+      [93002, 3002, 3],
+    ]);
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.volume, 6);
+    assert.equal(bars[0]?.closePrice, 3001);
+  });
+
+  it("keeps a max volume as a volume bar", () => {
+    const bars = generateBars(5, [
+      [93000, 3000, 3],
+      [93001, 3001, 3],
+      [93002, 3002, 3],
+    ]);
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.volume, 6);
+  });
+
+  it("treats a zero max volume as a minute bar", () => {
+    const bars = generateBars(0, [
+      [93000, 3000, 3],
+      [93100, 3001, 3],
+    ]);
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.time, 93000);
+  });
+
+  it("anchors minute bars to the latest session open", () => {
+    const bars = generateBars({ type: "minute", size: 15 }, [
+      [103200, 3000, 1],
+      [104500, 3001, 1],
+    ]);
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.time, 103000);
+  });
+
+  it("closes minute bars on the next minute", () => {
+    const bars = generateBars({ type: "minute", size: 1 }, [
+      [93000, 3000, 1],
+      [93059, 3002, 1],
+      [93100, 3001, 1],
+    ]);
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.time, 93000);
+    assert.equal(bars[0]?.highPrice, 3002);
+    assert.equal(bars[0]?.delta, 2);
+  });
+
+  it("closes range bars when the range is exceeded", () => {
+    const bars = generateBars({ type: "range", size: 2 }, [
+      [93000, 3000, 1],
+      [93001, 3001, 1],
+      [93002, 3002, 1],
+      [93003, 3003, 1],
+    ]);
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.lowPrice, 3000);
+    assert.equal(bars[0]?.highPrice, 3002);
+  });
+
+  it("needs two bricks to reverse a renko trend", () => {
+    const bars = generateBars({ type: "renko", size: 2 }, [
+      [93000, 3000, 1],
+      [93001, 3001, 1],
+      [93002, 3002, 1],
+      [93003, 3001, 1],
+      [93004, 2999, 1],
+      [93005, 2998, 1],
+    ]);
+
+    assert.deepEqual(
+      bars.map((bar) => [bar.openPrice, bar.closePrice]),
+      [
+        [3000, 3002],
+        [3001, 2998],
+      ],
+    );
+  });
+
+  it("keeps night ticks of products without a night session", () => {
+    const errors: string[] = [];
+
+    const bars = generateBars(
+      MinuteBar,
+      [
+        [210000, 3000, 1],
+        [210030, 3002, 0],
+        [210059, 3001, 1],
+        [210100, 3003, 1],
+      ],
+      "wr2510.SHFE",
+      { errorReceiver: { onError: (_, message) => errors.push(message) } },
+    );
+
+    assert.equal(bars.length, 1);
+    assert.equal(bars[0]?.time, 210000);
+    assert.equal(bars[0]?.volume, 2);
+    assert.deepEqual(errors, ["Night Session Unknown: wr2510.SHFE"]);
+  });
+
+  it("takes night sessions from the calendar", () => {
+    const errors: string[] = [];
+
+    const calendar = createTradingCalendar({
+      sessions: {
+        "SHFE.wr": [
+          { open: 210000, close: 230000, night: true },
+          { open: 90000, close: 150000, night: false },
+        ],
+      },
+    });
+
+    const bars = generateBars(
+      MinuteBar,
+      [
+        [210000, 3000, 1],
+        [210100, 3003, 1],
+      ],
+      "wr2510.SHFE",
+      {
+        calendar: calendar,
+        errorReceiver: { onError: (_, message) => errors.push(message) },
+      },
+    );
+
+    assert.equal(bars.length, 1);
+    assert.deepEqual(errors, []);
+  });
+});
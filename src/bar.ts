@@ -9,24 +9,156 @@
  * https://github.com/shixiongfei/hft.js
  */
 
-import type { BarData, TapeData, TickData, Writeable } from "./typedef.js";
-import type { IBarReceiver, ITickReceiver } from "./interfaces.js";
-import { getBarVolume } from "./utils.js";
+import type {
+  BarData,
+  BarSpec,
+  TapeData,
+  TickData,
+  TradingSession,
+  Writeable,
+} from "./typedef.js";
+import type {
+  IBarReceiver,
+  IBarStore,
+  IErrorReceiver,
+  ITickReceiver,
+  ITradingCalendar,
+} from "./interfaces.js";
+import { createTradingCalendar } from "./calendar.js";
+import {
+  getBarVolume,
+  secondsToTime,
+  timeToSeconds,
+  timeToTradingSeconds,
+} from "./utils.js";
 
 export type BarInfo = Writeable<BarData>;
 
+export const MinuteBar: BarSpec = Object.freeze({ type: "minute", size: 1 });
+
+const AuctionSeconds = 300;
+
+const UnknownNightSession: TradingSession = Object.freeze({
+  open: 210000,
+  close: 23000,
+  night: true,
+});
+
+const clampTime = (time: number, session: TradingSession) => {
+  const seconds = timeToTradingSeconds(time);
+
+  if (seconds < timeToTradingSeconds(session.open)) {
+    return session.open;
+  }
+
+  if (seconds >= timeToTradingSeconds(session.close)) {
+    return secondsToTime((timeToSeconds(session.close) + 86399) % 86400);
+  }
+
+  return time;
+};
+
+export type BarGeneratorOptions = {
+  calendar?: ITradingCalendar;
+  priceTick?: number;
+  store?: IBarStore;
+  errorReceiver?: IErrorReceiver;
+};
+
+const toBarSpec = (spec: BarSpec | number): BarSpec => {
+  if (typeof spec !== "number") {
+    return spec;
+  }
+
+  return spec > 0 ? Object.freeze({ type: "volume", size: spec }) : MinuteBar;
+};
+
+export const getBarSpecKey = (spec: BarSpec) => `${spec.type}:${spec.size}`;
+
+export const getBarPeriod = (spec: BarSpec) => {
+  switch (spec.type) {
+    case "second":
+      return spec.size;
+
+    case "minute":
+      return spec.size * 60;
+
+    case "hour":
+      return spec.size * 3600;
+
+    default:
+      return undefined;
+  }
+};
+
+export const alignBarTime = (
+  sessionOpens: number[],
+  time: number,
+  period: number,
+) => {
+  const seconds = timeToSeconds(time);
+  let elapsed = Number.MAX_SAFE_INTEGER;
+  let anchor = 0;
+
+  sessionOpens.forEach((open) => {
+    const sinceOpen = (seconds - open + 86400) % 86400;
+
+    if (sinceOpen < elapsed) {
+      elapsed = sinceOpen;
+      anchor = open;
+    }
+  });
+
+  return secondsToTime(
+    (anchor + Math.floor(elapsed / period) * period) % 86400,
+  );
+};
+
 export class BarGenerator implements ITickReceiver {
   private readonly receivers: IBarReceiver[];
   private readonly symbol: string;
-  private readonly maxVolume: number;
+  private readonly spec: BarSpec;
+  private readonly calendar: ITradingCalendar;
+  private readonly sessionOpens: number[];
+  private readonly priceTick: number;
+  private readonly store?: IBarStore;
+  private readonly errorReceiver?: IErrorReceiver;
   private shouldUpdate: number;
+  private unknownNight: boolean;
+  private tradingDay: number;
+  private ticks: number;
+  private brickPrice?: number;
+  private brickTrend: number;
   private bar?: BarInfo;
 
-  constructor(symbol: string, maxVolume = 0) {
+  constructor(
+    symbol: string,
+    spec: BarSpec | number = MinuteBar,
+    options?: BarGeneratorOptions,
+  ) {
     this.receivers = [];
     this.symbol = symbol;
-    this.maxVolume = maxVolume;
+    this.spec = toBarSpec(spec);
+    this.calendar = options?.calendar ?? createTradingCalendar();
+    this.priceTick = options?.priceTick ?? 1;
+
+    if (options?.store) {
+      this.store = options.store;
+    }
+
+    if (options?.errorReceiver) {
+      this.errorReceiver = options.errorReceiver;
+    }
+
     this.shouldUpdate = 0;
+    this.unknownNight = false;
+    this.tradingDay = 0;
+    this.ticks = 0;
+    this.brickTrend = 0;
+
+    this.sessionOpens = this.calendar
+      .getSessions(symbol)
+      .map((session) => timeToSeconds(session.open));
   }
 
   get receiverCount() {
@@ -60,26 +192,22 @@ export class BarGenerator implements ITickReceiver {
       return;
     }
 
-    const date = tick.date;
-
-    const time =
-      this.maxVolume > 0 ? tick.time : Math.floor(tick.time / 100) * 100;
+    const session =
+      this.calendar.findSession(this.symbol, tick.time, AuctionSeconds) ??
+      this._findUnknownNight(tick, tape);
 
-    if (this.bar) {
-      const isFinished =
-        this.maxVolume > 0
-          ? this.bar.volume >= this.maxVolume
-          : this.bar.date !== date || this.bar.time !== time;
+    if (!session) {
+      if (this.bar && this._isTimeBar()) {
+        this._finishBar(this.bar);
+      }
 
-      if (isFinished) {
-        const bar = Object.freeze(this.bar);
+      return;
+    }
 
-        Object.freeze(bar.buyVolumes);
-        Object.freeze(bar.sellVolumes);
+    const [date, time] = this._calcBarTime(tick, clampTime(tick.time, session));
 
-        this.receivers.forEach((receiver) => receiver.onBar(bar));
-        this.bar = undefined;
-      }
+    if (this.bar && this._isFinished(this.bar, tick, tape, time)) {
+      this._finishBar(this.bar);
     }
 
     if (tape.volumeDelta === 0) {
@@ -88,8 +216,12 @@ export class BarGenerator implements ITickReceiver {
 
     if (!this.bar) {
       this.bar = this._createBar(date, time, tick);
+      this.tradingDay = tick.tradingDay;
+      this.ticks = 0;
     }
 
+    this.ticks += 1;
+
     this.bar.openInterest = tick.openInterest;
     this.bar.closePrice = tick.lastPrice;
 
@@ -137,6 +269,137 @@ export class BarGenerator implements ITickReceiver {
         }
       });
     }
+
+    if (
+      this.spec.type === "renko" &&
+      this._isBrickFinished(this.bar, tick.lastPrice)
+    ) {
+      this._finishBar(this.bar);
+    }
+  }
+
+  private _findUnknownNight(tick: TickData, tape: TapeData) {
+    const seconds = timeToTradingSeconds(tick.time);
+
+    if (
+      seconds <
+        timeToTradingSeconds(UnknownNightSession.open) - AuctionSeconds ||
+      seconds > timeToTradingSeconds(UnknownNightSession.close)
+    ) {
+      return undefined;
+    }
+
+    if (!this.unknownNight) {
+      if (
+        tape.volumeDelta === 0 ||
+        this.calendar.getSessions(this.symbol).some((session) => session.night)
+      ) {
+        return undefined;
+      }
+
+      this.unknownNight = true;
+
+      if (this.errorReceiver) {
+        this.errorReceiver.onError(
+          "session-error",
+          `Night Session Unknown: ${this.symbol}`,
+        );
+      }
+    }
+
+    return UnknownNightSession;
+  }
+
+  private _finishBar(bar: BarInfo) {
+    Object.freeze(bar);
+    Object.freeze(bar.buyVolumes);
+    Object.freeze(bar.sellVolumes);
+
+    this.bar = undefined;
+
+    if (this.store) {
+      this.store.saveBar(this.spec, bar);
+    }
+
+    this.receivers.forEach((receiver) => receiver.onBar(bar));
+  }
+
+  private _isTimeBar() {
+    return getBarPeriod(this.spec) !== undefined;
+  }
+
+  private _calcBarTime(tick: TickData, time: number): [number, number] {
+    if (this.spec.type === "day") {
+      return [tick.tradingDay, 0];
+    }
+
+    const period = getBarPeriod(this.spec);
+
+    if (period === undefined) {
+      return [tick.date, time];
+    }
+
+    return [tick.date, alignBarTime(this.sessionOpens, time, period)];
+  }
+
+  private _isBrickFinished(bar: BarInfo, price: number) {
+    if (this.brickPrice === undefined) {
+      this.brickPrice = bar.openPrice;
+    }
+
+    const brickSize = this.spec.size * this.priceTick;
+    const move = price - this.brickPrice;
+    const trend = Math.sign(move);
+
+    const threshold =
+      this.brickTrend !== 0 && trend !== this.brickTrend
+        ? brickSize * 2
+        : brickSize;
+
+    if (Math.abs(move) < threshold) {
+      return false;
+    }
+
+    this.brickPrice +=
+      trend * Math.floor(Math.abs(move) / brickSize) * brickSize;
+    this.brickTrend = trend;
+
+    return true;
+  }
+
+  private _isFinished(
+    bar: BarInfo,
+    tick: TickData,
+    tape: TapeData,
+    time: number,
+  ) {
+    switch (this.spec.type) {
+      case "volume":
+        return bar.volume >= this.spec.size;
+
+      case "amount":
+        return bar.amount >= this.spec.size;
+
+      case "tick":
+        return this.ticks >= this.spec.size;
+
+      case "day":
+        return this.tradingDay !== tick.tradingDay;
+
+      case "range":
+        return (
+          tape.volumeDelta > 0 &&
+          Math.max(bar.highPrice, tick.lastPrice) -
+            Math.min(bar.lowPrice, tick.lastPrice) >
+            this.spec.size * this.priceTick
+        );
+
+      case "renko":
+        return false;
+
+      default:
+        return this.tradingDay !== tick.tradingDay || bar.time !== time;
+    }
   }
 
   private _createBar(date: number, time: number, tick: TickData): BarInfo {
@@ -159,5 +422,8 @@ export class BarGenerator implements ITickReceiver {
   }
 }
 
-export const createBarGenerator = (symbol: string, maxVolume = 0) =>
-  new BarGenerator(symbol, maxVolume);
+export const createBarGenerator = (
+  symbol: string,
+  spec?: BarSpec | number,
+  options?: BarGeneratorOptions,
+) => new BarGenerator(symbol, spec, options);
@@ -0,0 +1,44 @@
+/*
+ * bracket.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isValidBracket } from "./bracket.js";
+
+describe("isValidBracket", () => {
+  it("requires at least one exit", () => {
+    assert.equal(isValidBracket("long", 3000, {}), false);
+    assert.equal(isValidBracket("long", 3000, { takeProfit: 3010 }), true);
+  });
+
+  it("keeps exits on the right side of the entry", () => {
+    const params = { takeProfit: 3010, stopLoss: 2990 };
+
+    assert.equal(isValidBracket("long", 3000, params), true);
+    assert.equal(isValidBracket("short", 3000, params), false);
+    assert.equal(isValidBracket("long", 3015, params), false);
+    assert.equal(
+      isValidBracket("short", 3000, { takeProfit: 2990, stopLoss: 3010 }),
+      true,
+    );
+  });
+
+  it("checks only the exits against each other for market entries", () => {
+    assert.equal(
+      isValidBracket("long", 0, { takeProfit: 2990, stopLoss: 2980 }),
+      true,
+    );
+    assert.equal(
+      isValidBracket("long", 0, { takeProfit: 2980, stopLoss: 2990 }),
+      false,
+    );
+  });
+});
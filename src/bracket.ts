@@ -0,0 +1,344 @@
+/*
+ * bracket.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  BracketOrderStatus,
+  BracketParams,
+  SideType,
+  StopOrderParams,
+} from "./typedef.js";
+import type {
+  IBracketOrderHandle,
+  IOrderHandle,
+  IStopOrderHandle,
+} from "./interfaces.js";
+
+export type BracketPlacer = (price: number, volume: number) => IOrderHandle;
+
+export type BracketStopPlacer = (
+  params: StopOrderParams,
+  volume: number,
+  gate: () => Promise<number>,
+) => IStopOrderHandle;
+
+type BracketTranche = {
+  volume: number;
+  closed: number;
+  takeProfit?: IOrderHandle;
+  stopLoss?: IStopOrderHandle;
+  stopOrder?: IOrderHandle;
+  stopVolume?: number;
+  rearm: boolean;
+  done: boolean;
+};
+
+export const isValidBracket = (
+  side: SideType,
+  price: number,
+  params: BracketParams,
+) => {
+  const { takeProfit, stopLoss } = params;
+  const isLong = side === "long";
+
+  if (takeProfit === undefined && stopLoss === undefined) {
+    return false;
+  }
+
+  if (takeProfit !== undefined && stopLoss !== undefined) {
+    if (isLong ? takeProfit <= stopLoss : takeProfit >= stopLoss) {
+      return false;
+    }
+  }
+
+  if (price <= 0) {
+    return true;
+  }
+
+  if (takeProfit !== undefined) {
+    if (isLong ? takeProfit <= price : takeProfit >= price) {
+      return false;
+    }
+  }
+
+  if (stopLoss !== undefined) {
+    if (isLong ? stopLoss >= price : stopLoss <= price) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+export class BracketOrder implements IBracketOrderHandle {
+  private _status: BracketOrderStatus;
+  private readonly _entry: IOrderHandle;
+  private readonly params: BracketParams;
+  private readonly placer: BracketPlacer;
+  private readonly stopPlacer: BracketStopPlacer;
+  private readonly tranches: BracketTranche[];
+
+  constructor(
+    entry: IOrderHandle,
+    params: BracketParams,
+    placer: BracketPlacer,
+    stopPlacer: BracketStopPlacer,
+  ) {
+    this._status = "working";
+    this._entry = entry;
+    this.params = params;
+    this.placer = placer;
+    this.stopPlacer = stopPlacer;
+    this.tranches = [];
+
+    entry.addListener({
+      onTrade: (_, trade) => this._openTranche(trade.volume),
+    });
+
+    entry.done.then(
+      () => this._update(),
+      () => this._update(),
+    );
+  }
+
+  get entry() {
+    return this._entry;
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get isDone() {
+    return this._status !== "working";
+  }
+
+  get opened() {
+    return this.tranches.reduce((sum, tranche) => sum + tranche.volume, 0);
+  }
+
+  get closed() {
+    return this.tranches.reduce((sum, tranche) => sum + tranche.closed, 0);
+  }
+
+  get takeProfits() {
+    const takeProfits: IOrderHandle[] = [];
+
+    this.tranches.forEach((tranche) => {
+      if (tranche.takeProfit) {
+        takeProfits.push(tranche.takeProfit);
+      }
+    });
+
+    return takeProfits;
+  }
+
+  get stopLosses() {
+    const stopLosses: IStopOrderHandle[] = [];
+
+    this.tranches.forEach((tranche) => {
+      if (tranche.stopLoss) {
+        stopLosses.push(tranche.stopLoss);
+      }
+    });
+
+    return stopLosses;
+  }
+
+  cancel() {
+    if (this.isDone) {
+      return false;
+    }
+
+    this._status = "canceled";
+
+    if (!this._entry.isDone) {
+      this._entry.cancel();
+    }
+
+    this.tranches.forEach((tranche) => {
+      this._cancelTakeProfit(tranche);
+      tranche.stopLoss?.cancel();
+    });
+
+    return true;
+  }
+
+  private _openTranche(volume: number) {
+    if (this.isDone) {
+      return;
+    }
+
+    const tranche: BracketTranche = {
+      volume,
+      closed: 0,
+      rearm: false,
+      done: false,
+    };
+
+    this.tranches.push(tranche);
+
+    if (this.params.takeProfit !== undefined) {
+      const takeProfit = this.placer(this.params.takeProfit, volume);
+
+      tranche.takeProfit = takeProfit;
+
+      takeProfit.addListener({
+        onTrade: (_, trade) => this._onTakeProfitTrade(tranche, trade.volume),
+      });
+    }
+
+    this._placeStopLoss(tranche, volume);
+  }
+
+  private _placeStopLoss(tranche: BracketTranche, volume: number) {
+    if (this.params.stopLoss === undefined) {
+      return;
+    }
+
+    const stopLoss = this.stopPlacer(
+      {
+        type: this.params.stopLimit !== undefined ? "stop-limit" : "stop",
+        source: this.params.source,
+        stopPrice: this.params.stopLoss,
+        limitPrice: this.params.stopLimit,
+      },
+      volume,
+      () => this._releaseTakeProfit(tranche),
+    );
+
+    tranche.stopLoss = stopLoss;
+
+    stopLoss.triggered.then(
+      (handle) => this._onStopLossTriggered(tranche, handle),
+      () => {},
+    );
+  }
+
+  private _onTakeProfitTrade(tranche: BracketTranche, volume: number) {
+    tranche.closed += volume;
+
+    const rest = tranche.volume - tranche.closed;
+    const stopOrder = tranche.stopOrder;
+
+    if (stopOrder) {
+      if (
+        tranche.stopVolume !== undefined &&
+        !stopOrder.isDone &&
+        this._calcStopRest(stopOrder, tranche.stopVolume) > rest
+      ) {
+        tranche.rearm = rest > 0;
+        stopOrder.cancel();
+      }
+
+      return;
+    }
+
+    if (tranche.stopLoss?.cancel() && rest > 0) {
+      this._placeStopLoss(tranche, rest);
+    }
+
+    if (rest <= 0) {
+      tranche.done = true;
+    }
+
+    this._update();
+  }
+
+  private _onStopLossTriggered(tranche: BracketTranche, handle: IOrderHandle) {
+    tranche.stopOrder = handle;
+
+    handle.addListener({
+      onTrade: (_, trade) => {
+        tranche.closed += trade.volume;
+      },
+    });
+
+    handle.done.then(
+      () => this._onStopOrderDone(tranche, handle),
+      () => this._onStopOrderDone(tranche, handle),
+    );
+  }
+
+  private _onStopOrderDone(tranche: BracketTranche, handle: IOrderHandle) {
+    if (tranche.stopOrder !== handle) {
+      return;
+    }
+
+    const rest = tranche.volume - tranche.closed;
+
+    if (tranche.rearm && rest > 0 && !this.isDone) {
+      tranche.stopOrder = undefined;
+      tranche.stopVolume = undefined;
+      tranche.rearm = false;
+
+      this._placeStopLoss(tranche, rest);
+      return;
+    }
+
+    tranche.done = true;
+    this._update();
+  }
+
+  private _releaseTakeProfit(tranche: BracketTranche) {
+    const takeProfit = tranche.takeProfit;
+
+    const release = () => {
+      const rest =
+        this._status === "canceled" ? 0 : tranche.volume - tranche.closed;
+
+      tranche.stopVolume = rest;
+
+      return rest;
+    };
+
+    if (!takeProfit || takeProfit.isDone) {
+      return Promise.resolve(release());
+    }
+
+    takeProfit.cancel();
+
+    return takeProfit.done.then(release, release);
+  }
+
+  private _calcStopRest(stopOrder: IOrderHandle, stopVolume: number) {
+    const order = stopOrder.order;
+    return order ? order.volume - order.traded : stopVolume;
+  }
+
+  private _cancelTakeProfit(tranche: BracketTranche) {
+    if (tranche.takeProfit && !tranche.takeProfit.isDone) {
+      tranche.takeProfit.cancel();
+    }
+  }
+
+  private _update() {
+    if (this.isDone || !this._entry.isDone) {
+      return;
+    }
+
+    if (!this.tranches.every((tranche) => tranche.done)) {
+      return;
+    }
+
+    if (this.tranches.length > 0) {
+      this._status = "done";
+    } else {
+      this._status = this._entry.status === "error" ? "error" : "canceled";
+    }
+  }
+}
+
+export const createBracketOrder = (
+  entry: IOrderHandle,
+  params: BracketParams,
+  placer: BracketPlacer,
+  stopPlacer: BracketStopPlacer,
+) => new BracketOrder(entry, params, placer, stopPlacer);
@@ -0,0 +1,590 @@
+/*
+ * broker.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createBroker } from "./broker.js";
+import { QueryError } from "./errors.js";
+import type { BrokerOptions } from "./broker.js";
+import { MinuteBar } from "./bar.js";
+import { OrderRateRiskManager } from "./risk.js";
+import { createMemoryBarStore } from "./store.js";
+import { createSimTrader } from "./simulator.js";
+import type { SimTraderOptions } from "./simulator.js";
+import {
+  TestInstrument,
+  TestSymbol,
+  createMarket,
+  createOrderRecorder,
+  createStrategy,
+  createTick,
+  flush,
+} from "./testing.js";
+import type { ILifecycleListener, PlaceOrderContext } from "./interfaces.js";
+import type { BarData, PositionData } from "./typedef.js";
+
+const createSession = async (
+  options?: SimTraderOptions,
+  brokerOptions?: BrokerOptions,
+) => {
+  const { market, subscriptions, lifecycles, feed } = createMarket();
+  const trader = createSimTrader([TestInstrument], {
+    tradingDay: 20250102,
+    market: market,
+    ...options,
+  });
+  const traderOpen = trader.open.bind(trader);
+  const traderLifecycles: ILifecycleListener[] = [];
+
+  trader.open = (lifecycle) => {
+    traderLifecycles.push(lifecycle);
+    return traderOpen(lifecycle);
+  };
+
+  const broker = createBroker(trader, market, undefined, brokerOptions);
+  const strategy = createStrategy();
+
+  broker.addStrategy(strategy);
+  broker.start();
+  await flush();
+
+  feed(createTick(3000));
+
+  return {
+    trader,
+    broker,
+    strategy,
+    subscriptions,
+    lifecycles,
+    traderLifecycles,
+    feed,
+  };
+};
+
+describe("Broker", () => {
+  it("rejects orders when the risk context is unavailable", async () => {
+    const { broker, strategy } = await createSession();
+
+    broker.addPlaceOrderRiskManager({ onPlaceOrder: () => true });
+
+    const handle = broker.placeOrder(
+      strategy,
+      "xx2510.SHFE",
+      "close",
+      "short",
+      1,
+      3000,
+      "limit",
+    );
+
+    assert.equal(handle.status, "error");
+    assert.equal(handle.reason, "Risk Rejected");
+    assert.deepEqual(strategy.risks, ["Context Unavailable"]);
+  });
+
+  it("rejects opens without a margin rate to hold", async () => {
+    const { broker, strategy } = await createSession();
+
+    broker.addPlaceOrderRiskManager({ onPlaceOrder: () => true });
+
+    const handle = broker.placeOrder(
+      strategy,
+      TestSymbol,
+      "open",
+      "long",
+      1,
+      3000,
+      "limit",
+    );
+
+    assert.equal(handle.reason, "Risk Rejected");
+    assert.deepEqual(strategy.risks, ["Margin Rate Unavailable"]);
+  });
+
+  it("tells strategies which link dropped and came back", async () => {
+    const { strategy, lifecycles, traderLifecycles } = await createSession();
+
+    lifecycles[0]?.onDisconnected?.();
+    traderLifecycles[0]?.onDisconnected?.();
+    traderLifecycles[0]?.onReconnected?.();
+    lifecycles[0]?.onReconnected?.();
+
+    assert.deepEqual(strategy.links, [
+      "market:disconnected",
+      "trader:disconnected",
+      "trader:reconnected",
+      "market:reconnected",
+    ]);
+  });
+
+  it("holds the margin of in-flight orders in the risk context", async () => {
+    const { trader, broker, strategy } = await createSession({
+      marginRates: [
+        {
+          symbol: TestSymbol,
+          long: { ratio: 0.1, amount: 0 },
+          short: { ratio: 0.1, amount: 0 },
+        },
+      ],
+    });
+
+    const queryMarginRate = trader.queryMarginRate.bind(trader);
+
+    trader.queryMarginRate = (symbol, receiver) =>
+      setImmediate(() => queryMarginRate(symbol, receiver));
+
+    const contexts: PlaceOrderContext[] = [];
+
+    broker.addPlaceOrderRiskManager({
+      onPlaceOrder: (...args) => {
+        contexts.push(args[6]);
+        return true;
+      },
+    });
+
+    broker.placeOrder(strategy, TestSymbol, "open", "long", 2, 3000, "limit");
+    broker.placeOrder(strategy, TestSymbol, "open", "long", 2, 3000, "limit");
+    await flush();
+    await flush();
+
+    assert.equal(contexts[0]?.account?.frozenMargin, 0);
+    assert.equal(contexts[1]?.account?.frozenMargin, 6000);
+    assert.equal(
+      contexts[1]?.account?.cash,
+      (contexts[0]?.account?.cash ?? 0) - 6000,
+    );
+  });
+
+  it("counts order rates only for orders the whole chain accepts", async () => {
+    const { broker, strategy } = await createSession({
+      marginRates: [
+        {
+          symbol: TestSymbol,
+          long: { ratio: 0.1, amount: 0 },
+          short: { ratio: 0.1, amount: 0 },
+        },
+      ],
+    });
+
+    let rejecting = true;
+
+    broker.addPlaceOrderRiskManager(new OrderRateRiskManager(1, 60000));
+    broker.addPlaceOrderRiskManager({
+      onPlaceOrder: () => (rejecting ? "Rejected Later" : true),
+    });
+
+    const placeOrder = () =>
+      broker.placeOrder(strategy, TestSymbol, "open", "long", 1, 3000, "limit");
+
+    const rejected = placeOrder();
+    await flush();
+
+    rejecting = false;
+
+    const accepted = placeOrder();
+    await flush();
+
+    const limited = placeOrder();
+    await flush();
+
+    assert.equal(rejected.reason, "Risk Rejected");
+    assert.notEqual(accepted.status, "error");
+    assert.equal(limited.reason, "Risk Rejected");
+    assert.deepEqual(strategy.risks, [
+      "Rejected Later",
+      "Order Rate Exceeded: 1 orders per 60000ms",
+    ]);
+  });
+
+  it("drops the stop subscription with the last stop order", async () => {
+    const { broker, strategy, subscriptions, feed } = await createSession();
+
+    const countReceivers = () =>
+      Array.from(subscriptions.values()).filter((symbols) =>
+        symbols.has(TestSymbol),
+      ).length;
+
+    const receivers = countReceivers();
+    const params = { type: "stop", stopPrice: 3010 } as const;
+
+    const canceled = broker.placeStopOrder(
+      strategy,
+      TestSymbol,
+      "open",
+      "long",
+      1,
+      params,
+    );
+    broker.placeStopOrder(strategy, TestSymbol, "open", "long", 1, params);
+
+    assert.equal(countReceivers(), receivers + 1);
+
+    canceled.cancel();
+    await flush();
+
+    assert.equal(countReceivers(), receivers + 1);
+
+    feed(createTick(3010));
+    await flush();
+
+    assert.equal(countReceivers(), receivers);
+    assert.deepEqual(broker.getStopOrders(strategy), []);
+  });
+
+  it("cancels the take-profit before the stop-loss closes", async () => {
+    const { trader, broker, strategy, feed } = await createSession();
+
+    const bracket = broker.placeBracketOrder(
+      strategy,
+      TestSymbol,
+      "long",
+      2,
+      3001,
+      "limit",
+      { takeProfit: 3020, stopLoss: 2990 },
+    );
+
+    await flush();
+    feed(createTick(3000));
+    await flush();
+
+    assert.equal(bracket.opened, 2);
+    assert.equal(bracket.takeProfits.length, 1);
+
+    feed(createTick(2990));
+    await flush();
+    feed(createTick(2990));
+    await flush();
+
+    let position: PositionData | undefined;
+
+    trader.queryPosition(TestSymbol, {
+      onPosition: (data) => (position = data),
+    });
+
+    assert.equal(bracket.takeProfits[0]?.status, "canceled");
+    assert.equal(bracket.closed, 2);
+    assert.equal(bracket.status, "done");
+    assert.equal(position?.today.long.position, 0);
+    assert.equal(position?.today.short.position, 0);
+  });
+
+  it("stops out only what the take-profit left open", async () => {
+    const { trader, broker, strategy, feed } = await createSession();
+
+    const bracket = broker.placeBracketOrder(
+      strategy,
+      TestSymbol,
+      "long",
+      2,
+      3001,
+      "limit",
+      { takeProfit: 3020, stopLoss: 2990 },
+    );
+
+    await flush();
+    feed(createTick(3000));
+    await flush();
+
+    feed(
+      createTick(3020, {
+        orderBook: {
+          asks: { price: [3021], volume: [50] },
+          bids: { price: [3020], volume: [1] },
+        },
+      }),
+    );
+    await flush();
+
+    assert.equal(bracket.closed, 1);
+
+    feed(createTick(2990));
+    await flush();
+    feed(createTick(2990));
+    await flush();
+
+    let position: PositionData | undefined;
+
+    trader.queryPosition(TestSymbol, {
+      onPosition: (data) => (position = data),
+    });
+
+    assert.equal(bracket.closed, 2);
+    assert.equal(bracket.status, "done");
+    assert.equal(position?.today.long.position, 0);
+    assert.equal(position?.today.short.position, 0);
+  });
+
+  it("closes a stop-loss from history after the trading day rolls", async () => {
+    const { trader, broker, strategy, feed } = await createSession();
+
+    const bracket = broker.placeBracketOrder(
+      strategy,
+      TestSymbol,
+      "long",
+      2,
+      3001,
+      "limit",
+      { takeProfit: 3020, stopLoss: 2990 },
+    );
+
+    await flush();
+    feed(createTick(3000));
+    await flush();
+
+    assert.equal(bracket.takeProfits[0]?.order?.offset, "close-today");
+
+    feed(
+      createTick(3000, { date: 20250102, time: 210000, tradingDay: 20250103 }),
+    );
+    await flush();
+    feed(
+      createTick(2990, { date: 20250102, time: 210001, tradingDay: 20250103 }),
+    );
+    await flush();
+    feed(
+      createTick(2990, { date: 20250102, time: 210002, tradingDay: 20250103 }),
+    );
+    await flush();
+
+    let position: PositionData | undefined;
+
+    trader.queryPosition(TestSymbol, {
+      onPosition: (data) => (position = data),
+    });
+
+    assert.equal(bracket.stopLosses[0]?.orderHandle?.order?.offset, "close");
+    assert.equal(bracket.closed, 2);
+    assert.equal(bracket.status, "done");
+    assert.equal(position?.history.long.position, 0);
+  });
+
+  it("closes what it can and reports the shortfall once", async () => {
+    const { broker, strategy, feed } = await createSession({
+      positions: [
+        {
+          symbol: TestSymbol,
+          date: 20250101,
+          side: "long",
+          price: 3000,
+          volume: 3,
+          margin: 0,
+        },
+      ],
+    });
+
+    broker.placeOrder(strategy, TestSymbol, "open", "long", 2, 3001, "limit");
+    await flush();
+    feed(createTick(3000));
+    await flush();
+
+    const results: string[] = [];
+
+    const handles = broker.closeAuto(
+      strategy,
+      TestSymbol,
+      "short",
+      9,
+      3010,
+      "limit",
+      {
+        onPlaceOrderSent: (receiptId) => results.push(`sent:${receiptId}`),
+        onPlaceOrderError: (reason) => results.push(`error:${reason}`),
+      },
+    );
+
+    await flush();
+
+    assert.deepEqual(
+      handles.map((handle) => [handle.order?.offset, handle.order?.volume]),
+      [
+        ["close", 3],
+        ["close-today", 2],
+        [undefined, undefined],
+      ],
+    );
+    assert.equal(handles[2]?.reason, "Insufficient Position");
+    assert.deepEqual(results, [`sent:${handles[0]?.receiptId}`]);
+  });
+
+  it("warms up bars in time order across symbols", async () => {
+    const barStore = createMemoryBarStore();
+    const { broker } = await createSession(undefined, { barStore });
+
+    const createBar = (symbol: string, time: number): BarData => ({
+      symbol: symbol,
+      date: 20250102,
+      time: time,
+      openInterest: 0,
+      openPrice: 3000,
+      highPrice: 3000,
+      lowPrice: 3000,
+      closePrice: 3000,
+      volume: 0,
+      amount: 0,
+      delta: 0,
+      poc: 3000,
+      buyVolumes: {},
+      sellVolumes: {},
+    });
+
+    barStore.saveBar(MinuteBar, createBar(TestSymbol, 93000));
+    barStore.saveBar(MinuteBar, createBar(TestSymbol, 93200));
+    barStore.saveBar(MinuteBar, createBar("hc2510.SHFE", 93100));
+    barStore.saveBar(MinuteBar, createBar("hc2510.SHFE", 93200));
+
+    const bars: string[] = [];
+
+    await broker.warmupBar(
+      [TestSymbol, "hc2510.SHFE"],
+      {
+        onBar: (bar) => bars.push(`${bar.symbol}@${bar.time}`),
+      },
+      2,
+    );
+
+    assert.deepEqual(bars, [
+      `${TestSymbol}@93000`,
+      "hc2510.SHFE@93100",
+      `${TestSymbol}@93200`,
+      "hc2510.SHFE@93200",
+    ]);
+  });
+});
+
+describe("Broker order routing", () => {
+  it("delivers order events only to the owning strategy", async () => {
+    const { broker, strategy, feed } = await createSession();
+    const other = createStrategy();
+
+    broker.addStrategy(other);
+
+    const handle = broker.placeOrder(
+      strategy,
+      TestSymbol,
+      "open",
+      "long",
+      1,
+      3001,
+      "limit",
+    );
+
+    await flush();
+    feed(createTick(3000));
+
+    assert.deepEqual(strategy.events, [
+      `entrust:${handle.receiptId}`,
+      `trade:${handle.receiptId}`,
+    ]);
+    assert.deepEqual(other.events, []);
+  });
+
+  it("sends foreign orders to the unowned receiver", async () => {
+    const { receiver, events } = createOrderRecorder();
+    const { trader, strategy } = await createSession(undefined, {
+      unownedOrderReceiver: receiver,
+    });
+
+    let receiptId: string | undefined;
+
+    trader.placeOrder(TestSymbol, "open", "long", 1, 2990, "limit", {
+      onPlaceOrderSent: (id) => (receiptId = id),
+      onPlaceOrderError: () => {},
+    });
+
+    await flush();
+
+    assert.deepEqual(events, [`entrust:${receiptId}`]);
+    assert.deepEqual(strategy.events, []);
+  });
+
+  it("hands orders of a removed strategy to the unowned receiver", async () => {
+    const { receiver, events } = createOrderRecorder();
+    const { broker, strategy, feed } = await createSession(undefined, {
+      unownedOrderReceiver: receiver,
+    });
+
+    const handle = broker.placeOrder(
+      strategy,
+      TestSymbol,
+      "open",
+      "long",
+      1,
+      3001,
+      "limit",
+    );
+
+    await flush();
+    broker.removeStrategy(strategy);
+    feed(createTick(3000));
+
+    assert.deepEqual(strategy.events, [`entrust:${handle.receiptId}`]);
+    assert.deepEqual(events, [`trade:${handle.receiptId}`]);
+    assert.equal(handle.status, "filled");
+  });
+});
+
+describe("Broker queries", () => {
+  it("keeps the receiver callbacks next to the promises", async () => {
+    const { broker } = await createSession();
+
+    let symbol: string | undefined;
+
+    broker.queryInstrument(TestSymbol, {
+      onInstrument: (instrument) => (symbol = instrument?.symbol),
+    });
+
+    assert.equal(symbol, TestSymbol);
+    assert.equal((await broker.instrument(TestSymbol)).symbol, TestSymbol);
+  });
+
+  it("rejects failed queries with a typed error", async () => {
+    const { broker } = await createSession();
+
+    await assert.rejects(
+      broker.instrument("xx2510.SHFE"),
+      new QueryError(
+        "query-instrument-error",
+        "Instrument Not Found: xx2510.SHFE",
+      ),
+    );
+  });
+
+  it("rejects queries that are never answered", async () => {
+    const { trader, broker } = await createSession();
+
+    trader.queryInstrument = () => {};
+
+    await assert.rejects(
+      broker.instrument(TestSymbol, 10),
+      new QueryError("query-timeout", "Query Timeout"),
+    );
+  });
+
+  it("settles pending queries when the provider closes", async () => {
+    const { trader, broker } = await createSession();
+
+    trader.queryPositions = () => {};
+
+    const pending = broker.positions();
+
+    broker.stop();
+
+    await assert.rejects(
+      pending,
+      new QueryError("provider-closed", "Provider Closed"),
+    );
+    await assert.rejects(
+      broker.instrument(TestSymbol),
+      new QueryError("provider-closed", "Provider Closed"),
+    );
+  });
+});
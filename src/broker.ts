@@ -9,19 +9,64 @@
  * https://github.com/shixiongfei/hft.js
  */
 
-import type { OffsetType, OrderData, OrderFlag, SideType } from "./typedef.js";
-import { BarGenerator, createBarGenerator } from "./bar.js";
+import type {
+  BarSpec,
+  BracketParams,
+  ClosePreference,
+  CommissionRate,
+  InstrumentData,
+  MarginRate,
+  OffsetType,
+  OrderData,
+  OrderFlag,
+  OrderOptions,
+  PositionData,
+  PositionDetail,
+  ProductType,
+  SideType,
+  StopOrderData,
+  StopOrderParams,
+  TradeData,
+  TradingAccount,
+} from "./typedef.js";
+import {
+  BarGenerator,
+  MinuteBar,
+  createBarGenerator,
+  getBarSpecKey,
+} from "./bar.js";
+import { createTradingCalendar } from "./calendar.js";
+import { createMemoryBarStore } from "./store.js";
+import { QueryError } from "./errors.js";
+import { isValidPrice, parseSymbol } from "./utils.js";
+import {
+  OrderHandle,
+  StopOrderHandle,
+  createOrderHandle,
+  createStopOrderHandle,
+} from "./order.js";
+import { createBracketOrder, isValidBracket } from "./bracket.js";
+import {
+  PositionBook,
+  bookToPositionData,
+  createPositionBook,
+  calcCloseOffsets,
+  reconcilePositions,
+  splitCloseVolume,
+} from "./position.js";
 import type {
   ICancelOrderResultReceiver,
   ErrorType,
   ICancelOrderRiskManager,
   ICommissionRateReceiver,
   IErrorReceiver,
+  IOrderHandle,
   IInstrumentReceiver,
   IInstrumentsReceiver,
   ILifecycleListener,
   IMarginRateReceiver,
   IMarketProvider,
+  IOrderReceiver,
   IOrdersReceiver,
   IPlaceOrderRiskManager,
   IPositionsReceiver,
@@ -29,31 +74,99 @@ import type {
   IStrategy,
   ITickReceiver,
   ITraderProvider,
+  ITradingCalendar,
   ITradingAccountsReceiver,
   IPlaceOrderResultReceiver,
   IPositionReceiver,
   IPositionDetailsReceiver,
   IBarReceiver,
+  IBarStore,
+  PlaceOrderContext,
 } from "./interfaces.js";
 
+export type BrokerOptions = {
+  queryTimeout?: number;
+  unownedOrderReceiver?: IOrderReceiver;
+  calendar?: ITradingCalendar;
+  // Warm-up reads only this process's bars unless a persistent store is set.
+  barStore?: IBarStore;
+  closePreference?: ClosePreference;
+};
+
+type OwnedOrder = {
+  strategy: IStrategy;
+  handle: OrderHandle;
+};
+
+type PendingMargin = {
+  margin: number;
+  entrusted: boolean;
+};
+
+type OwnedStopOrder = {
+  strategy: IStrategy;
+  symbol: string;
+  handle: StopOrderHandle;
+};
+
+type QueryResolve<T> = (value: T) => void;
+type QueryReject = (error: QueryError) => void;
+
 export class Broker implements IRuntimeEngine {
+  private opened: boolean;
+  private stopOrderRef: number;
+  private account?: TradingAccount;
+  private baselinePositions?: PositionData[];
   private readonly trader: ITraderProvider;
   private readonly market: IMarketProvider;
   private readonly traderLifecycle: ILifecycleListener;
   private readonly marketLifecycle: ILifecycleListener;
+  private readonly orderReceiver: IOrderReceiver;
+  private readonly bookTickReceiver: ITickReceiver;
+  private readonly stopTickReceiver: ITickReceiver;
   private readonly strategies: IStrategy[] = [];
   private readonly placeOrderRiskManagers: IPlaceOrderRiskManager[] = [];
   private readonly cancelOrderRiskManagers: ICancelOrderRiskManager[] = [];
   private readonly generators: Map<string, BarGenerator>;
+  private readonly ownedOrders: Map<string, OwnedOrder>;
+  private readonly pendingMargins: Map<OrderHandle, PendingMargin>;
+  private readonly unownedOrderReceiver?: IOrderReceiver;
+  private readonly books: Map<IStrategy, PositionBook>;
+  private readonly bookSymbols: Set<string>;
+  private readonly stopOrders: Map<string, OwnedStopOrder>;
+  private readonly stopSymbols: Set<string>;
+  private readonly pendingQueries: Set<QueryReject>;
+  private readonly queryTimeout: number;
+  private readonly calendar: ITradingCalendar;
+  private readonly barStore: IBarStore;
+  private readonly closePreference: ClosePreference;
 
   constructor(
     trader: ITraderProvider,
     market: IMarketProvider,
     errorReceiver?: IErrorReceiver,
+    options?: BrokerOptions,
   ) {
+    this.opened = false;
     this.trader = trader;
     this.market = market;
     this.generators = new Map();
+    this.ownedOrders = new Map();
+    this.pendingMargins = new Map();
+    this.books = new Map();
+    this.bookSymbols = new Set();
+    this.stopOrderRef = 0;
+    this.stopOrders = new Map();
+    this.stopSymbols = new Set();
+    this.pendingQueries = new Set();
+    this.queryTimeout = options?.queryTimeout ?? 10000;
+    this.calendar = options?.calendar ?? createTradingCalendar();
+    this.barStore = options?.barStore ?? createMemoryBarStore();
+    this.closePreference = options?.closePreference ?? "history-first";
+
+    if (options?.unownedOrderReceiver) {
+      this.unownedOrderReceiver = options.unownedOrderReceiver;
+    }
 
     this.marketLifecycle = {
       onOpen: () => {
@@ -82,6 +195,18 @@ export class Broker implements IRuntimeEngine {
         }
       },
 
+      onDisconnected: () => {
+        this.strategies.forEach((strategy) =>
+          strategy.onDisconnected?.("market"),
+        );
+      },
+
+      onReconnected: () => {
+        this.strategies.forEach((strategy) =>
+          strategy.onReconnected?.("market"),
+        );
+      },
+
       onError: (error: ErrorType, message: string) => {
         if (errorReceiver) {
           errorReceiver.onError(error, message);
@@ -91,11 +216,40 @@ export class Broker implements IRuntimeEngine {
 
     this.traderLifecycle = {
       onOpen: () => {
+        this.opened = true;
+        this._refreshAccount();
+
+        if (!this.baselinePositions) {
+          this.trader.queryPositions({
+            onPositions: (positions) => (this.baselinePositions = positions),
+          });
+        }
+
         this.market.open(this.marketLifecycle);
       },
 
       onClose: () => {
         this.market.close(this.marketLifecycle);
+        this.opened = false;
+
+        const pendingQueries = Array.from(this.pendingQueries);
+
+        pendingQueries.forEach((reject) =>
+          reject(new QueryError("provider-closed", "Provider Closed")),
+        );
+      },
+
+      onDisconnected: () => {
+        this.strategies.forEach((strategy) =>
+          strategy.onDisconnected?.("trader"),
+        );
+      },
+
+      onReconnected: (changes) => {
+        this._refreshAccount();
+        this.strategies.forEach((strategy) =>
+          strategy.onReconnected?.("trader", changes),
+        );
       },
 
       onError: (error: ErrorType, message: string) => {
@@ -104,6 +258,78 @@ export class Broker implements IRuntimeEngine {
         }
       },
     };
+
+    this.orderReceiver = {
+      onEntrust: (order) => {
+        const ownedOrder = this.ownedOrders.get(order.receiptId);
+
+        if (ownedOrder) {
+          ownedOrder.handle.onEntrust(order);
+          this._settleMargin(ownedOrder.handle);
+        }
+
+        this._routeOrder(ownedOrder)?.onEntrust(order);
+      },
+
+      onTrade: (order, trade) => {
+        const ownedOrder = this.ownedOrders.get(order.receiptId);
+
+        if (ownedOrder) {
+          this._bookTrade(ownedOrder.strategy, order, trade);
+          ownedOrder.handle.onTrade(order, trade);
+          this._releaseOrder(order.receiptId, ownedOrder);
+        }
+
+        this._refreshAccount();
+        this._routeOrder(ownedOrder)?.onTrade(order, trade);
+      },
+
+      onCancel: (order) => {
+        const ownedOrder = this.ownedOrders.get(order.receiptId);
+
+        if (ownedOrder) {
+          ownedOrder.handle.onCancel(order);
+          this.pendingMargins.delete(ownedOrder.handle);
+          this._releaseOrder(order.receiptId, ownedOrder);
+        }
+
+        this._routeOrder(ownedOrder)?.onCancel(order);
+      },
+
+      onReject: (order) => {
+        const ownedOrder = this.ownedOrders.get(order.receiptId);
+
+        if (ownedOrder) {
+          ownedOrder.handle.onReject(order);
+          this.pendingMargins.delete(ownedOrder.handle);
+          this._releaseOrder(order.receiptId, ownedOrder);
+        }
+
+        this._routeOrder(ownedOrder)?.onReject(order);
+      },
+    };
+
+    this.bookTickReceiver = {
+      onTick: (tick) => {
+        if (!isValidPrice(tick.lastPrice)) {
+          return;
+        }
+
+        this.books.forEach((book) =>
+          book.updatePrice(tick.symbol, tick.lastPrice),
+        );
+      },
+    };
+
+    this.stopTickReceiver = {
+      onTick: (tick) => {
+        const stopOrders = Array.from(this.stopOrders.values());
+
+        stopOrders.forEach((stopOrder) => stopOrder.handle.onTick(tick));
+      },
+    };
+
+    this.trader.addOrderReceiver(this.orderReceiver);
   }
 
   start() {
@@ -117,7 +343,6 @@ export class Broker implements IRuntimeEngine {
   addStrategy(strategy: IStrategy) {
     if (!this.strategies.includes(strategy)) {
       this.strategies.push(strategy);
-      this.trader.addOrderReceiver(strategy);
     }
   }
 
@@ -129,7 +354,14 @@ export class Broker implements IRuntimeEngine {
     }
 
     this.strategies.splice(index, 1);
-    this.trader.removeOrderReceiver(strategy);
+
+    const stopOrders = Array.from(this.stopOrders.values());
+
+    stopOrders.forEach((stopOrder) => {
+      if (stopOrder.strategy === strategy) {
+        stopOrder.handle.cancel();
+      }
+    });
   }
 
   addPlaceOrderRiskManager(riskMgr: IPlaceOrderRiskManager) {
@@ -152,14 +384,34 @@ export class Broker implements IRuntimeEngine {
     return this.market.unsubscribe(symbols, receiver);
   }
 
-  subscribeBar(symbols: string[], receiver: IBarReceiver) {
+  subscribeBar(
+    symbols: string[],
+    receiver: IBarReceiver,
+    spec: BarSpec = MinuteBar,
+  ) {
     symbols.forEach((symbol) => {
-      let generator = this.generators.get(symbol);
+      const key = `${symbol}:${getBarSpecKey(spec)}`;
+      let generator = this.generators.get(key);
 
       if (!generator) {
-        generator = createBarGenerator(symbol);
+        let priceTick = 1;
+
+        this.trader.queryInstrument(symbol, {
+          onInstrument: (instrument) => {
+            if (instrument) {
+              priceTick = instrument.priceTick;
+            }
+          },
+        });
 
-        this.generators.set(symbol, generator);
+        generator = createBarGenerator(symbol, spec, {
+          calendar: this.calendar,
+          priceTick: priceTick,
+          store: this.barStore,
+          errorReceiver: this.marketLifecycle,
+        });
+
+        this.generators.set(key, generator);
         this.subscribe([symbol], generator);
       }
 
@@ -167,9 +419,32 @@ export class Broker implements IRuntimeEngine {
     });
   }
 
-  unsubscribeBar(symbols: string[], receiver: IBarReceiver) {
+  async warmupBar(
+    symbols: string[],
+    receiver: IBarReceiver,
+    count: number,
+    spec: BarSpec = MinuteBar,
+  ) {
+    const bars = await Promise.all(
+      symbols.map((symbol) => this.barStore.loadBars(symbol, spec, count)),
+    );
+
+    bars
+      .flat()
+      .sort((a, b) => a.date - b.date || a.time - b.time)
+      .forEach((bar) => receiver.onBar(bar, true));
+
+    this.subscribeBar(symbols, receiver, spec);
+  }
+
+  unsubscribeBar(
+    symbols: string[],
+    receiver: IBarReceiver,
+    spec: BarSpec = MinuteBar,
+  ) {
     symbols.forEach((symbol) => {
-      const generator = this.generators.get(symbol);
+      const key = `${symbol}:${getBarSpecKey(spec)}`;
+      const generator = this.generators.get(key);
 
       if (!generator) {
         return;
@@ -179,7 +454,7 @@ export class Broker implements IRuntimeEngine {
 
       if (generator.receiverCount === 0) {
         this.unsubscribe([symbol], generator);
-        this.generators.delete(symbol);
+        this.generators.delete(key);
       }
     });
   }
@@ -192,40 +467,32 @@ export class Broker implements IRuntimeEngine {
     volume: number,
     price: number,
     flag: OrderFlag,
-    receiver: IPlaceOrderResultReceiver,
+    receiver?: IPlaceOrderResultReceiver,
+    options: OrderOptions = {},
   ) {
-    for (const placeOrderRiskManager of this.placeOrderRiskManagers) {
-      const result = placeOrderRiskManager.onPlaceOrder(
-        symbol,
-        offset,
-        side,
-        volume,
-        price,
-        flag,
-      );
-
-      if (typeof result === "boolean") {
-        if (!result) {
-          strategy.onRisk("place-order-risk");
-          receiver.onPlaceOrderError("Risk Rejected");
-          return;
-        }
-      } else {
-        strategy.onRisk("place-order-risk", result);
-        receiver.onPlaceOrderError("Risk Rejected");
-        return;
-      }
-    }
+    const handle = this._createOrderHandle(
+      strategy,
+      symbol,
+      offset,
+      side,
+      flag,
+      receiver,
+      options,
+    );
 
-    return this.trader.placeOrder(
+    this._sendOrder(
+      strategy,
+      handle,
       symbol,
       offset,
       side,
       volume,
       price,
       flag,
-      receiver,
+      options,
     );
+
+    return handle;
   }
 
   cancelOrder(
@@ -242,16 +509,212 @@ export class Broker implements IRuntimeEngine {
           receiver.onCancelOrderError("Risk Rejected");
           return;
         }
-      } else {
+      } else if (typeof result === "string") {
         strategy.onRisk("cancel-order-risk", result);
         receiver.onCancelOrderError("Risk Rejected");
         return;
+      } else {
+        strategy.onRisk("cancel-order-warning", result.warning);
       }
     }
 
     return this.trader.cancelOrder(order, receiver);
   }
 
+  placeStopOrder(
+    strategy: IStrategy,
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    params: StopOrderParams,
+  ) {
+    return this._placeStopOrder(strategy, symbol, offset, side, volume, params);
+  }
+
+  placeBracketOrder(
+    strategy: IStrategy,
+    symbol: string,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    params: BracketParams,
+    receiver?: IPlaceOrderResultReceiver,
+  ) {
+    const closeSide: SideType = side === "long" ? "short" : "long";
+
+    const placer = (price: number, volume: number) =>
+      this.placeOrder(
+        strategy,
+        symbol,
+        this._calcCloseOffset(strategy, symbol, closeSide, volume),
+        closeSide,
+        volume,
+        price,
+        "limit",
+      );
+
+    const stopPlacer = (
+      stopParams: StopOrderParams,
+      volume: number,
+      gate: () => Promise<number>,
+    ) =>
+      this._placeStopOrder(
+        strategy,
+        symbol,
+        this._calcCloseOffset(strategy, symbol, closeSide, volume),
+        closeSide,
+        volume,
+        stopParams,
+        gate,
+      );
+
+    const placeEntry = (
+      price: number,
+      volume: number,
+      receiver?: IPlaceOrderResultReceiver,
+    ) =>
+      this.placeOrder(
+        strategy,
+        symbol,
+        "open",
+        side,
+        volume,
+        price,
+        flag,
+        receiver,
+        params.options,
+      );
+
+    if (!isValidBracket(side, flag === "limit" ? price : 0, params)) {
+      const entry = createOrderHandle(
+        placeEntry,
+        (order, receiver) => this.cancelOrder(strategy, order, receiver),
+        receiver,
+      );
+
+      entry.onPlaceOrderError("Invalid Bracket");
+
+      return createBracketOrder(entry, params, placer, stopPlacer);
+    }
+
+    return createBracketOrder(
+      placeEntry(price, volume, receiver),
+      params,
+      placer,
+      stopPlacer,
+    );
+  }
+
+  closeAuto(
+    strategy: IStrategy,
+    symbol: string,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    receiver?: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
+    preference?: ClosePreference,
+  ) {
+    let position: PositionData | undefined;
+
+    this.trader.queryPosition(symbol, {
+      onPosition: (data) => (position = data),
+    });
+
+    const [, exchangeId] = parseSymbol(symbol);
+    const closePreference = preference ?? this.closePreference;
+
+    const volumes = position
+      ? splitCloseVolume(position, side, volume, exchangeId, closePreference)
+      : [];
+
+    const closable = volumes.reduce((sum, split) => sum + split.volume, 0);
+    const closeReceiver =
+      receiver && volumes.length > 1
+        ? this._createCloseReceiver(receiver, volumes.length)
+        : receiver;
+
+    const handles: IOrderHandle[] = volumes.map(({ offset, volume }) =>
+      this.placeOrder(
+        strategy,
+        symbol,
+        offset,
+        side,
+        volume,
+        price,
+        flag,
+        closeReceiver,
+        options,
+      ),
+    );
+
+    if (closable < volume) {
+      const [offset] = calcCloseOffsets(exchangeId, closePreference);
+
+      const handle = this._createOrderHandle(
+        strategy,
+        symbol,
+        offset ?? "close",
+        side,
+        flag,
+        handles.length > 0 ? undefined : receiver,
+        options,
+      );
+
+      handle.onPlaceOrderError("Insufficient Position");
+      handles.push(handle);
+    }
+
+    return handles;
+  }
+
+  getStopOrders(strategy: IStrategy) {
+    const stopOrders: StopOrderData[] = [];
+
+    this.stopOrders.forEach((stopOrder) => {
+      if (stopOrder.strategy === strategy) {
+        stopOrders.push(stopOrder.handle.data);
+      }
+    });
+
+    return stopOrders;
+  }
+
+  getLastTick(symbol: string) {
+    const [instrumentId] = parseSymbol(symbol);
+    return this.market.getLastTick(instrumentId);
+  }
+
+  getCalendar() {
+    return this.calendar;
+  }
+
+  getBookPosition(strategy: IStrategy, symbol: string) {
+    const book = this._settleBook(strategy);
+    return book ? book.getPosition(symbol) : undefined;
+  }
+
+  getBookPositions(strategy: IStrategy) {
+    const book = this._settleBook(strategy);
+    return book ? book.getPositions() : [];
+  }
+
+  async reconcilePositions(timeout?: number) {
+    const positions = await this.positions(timeout);
+    const tradingDay = this.trader.getTradingDay();
+
+    this.books.forEach((book) => book.settle(tradingDay));
+
+    return reconcilePositions(
+      Array.from(this.books.values()),
+      positions,
+      this.baselinePositions,
+    );
+  }
+
   getTradingDay() {
     return this.trader.getTradingDay();
   }
@@ -280,12 +743,17 @@ export class Broker implements IRuntimeEngine {
     return this.trader.queryPosition(symbol, receiver);
   }
 
-  queryInstruments(receiver: IInstrumentsReceiver) {
-    return this.trader.queryInstruments(receiver);
+  queryInstruments(receiver: IInstrumentsReceiver, type?: ProductType) {
+    return this.trader.queryInstruments(receiver, type);
   }
 
   queryTradingAccounts(receiver: ITradingAccountsReceiver) {
-    return this.trader.queryTradingAccounts(receiver);
+    return this.trader.queryTradingAccounts({
+      onTradingAccounts: (accounts) => {
+        this._updateAccount(accounts);
+        receiver.onTradingAccounts(accounts);
+      },
+    });
   }
 
   queryPositions(receiver: IPositionsReceiver) {
@@ -299,10 +767,721 @@ export class Broker implements IRuntimeEngine {
   queryOrders(receiver: IOrdersReceiver) {
     return this.trader.queryOrders(receiver);
   }
+
+  commissionRate(symbol: string, timeout?: number) {
+    return this._query<CommissionRate>(timeout, (resolve, reject) =>
+      this.trader.queryCommissionRate(symbol, {
+        onCommissionRate: (rate) => {
+          if (rate) {
+            resolve(rate);
+          } else {
+            reject(
+              new QueryError(
+                "query-commission-rate-error",
+                `Commission Rate Not Found: ${symbol}`,
+              ),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  marginRate(symbol: string, timeout?: number) {
+    return this._query<MarginRate>(timeout, (resolve, reject) =>
+      this.trader.queryMarginRate(symbol, {
+        onMarginRate: (rate) => {
+          if (rate) {
+            resolve(rate);
+          } else {
+            reject(
+              new QueryError(
+                "query-margin-rate-error",
+                `Margin Rate Not Found: ${symbol}`,
+              ),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  instrument(symbol: string, timeout?: number) {
+    return this._query<InstrumentData>(timeout, (resolve, reject) =>
+      this.trader.queryInstrument(symbol, {
+        onInstrument: (instrument) => {
+          if (instrument) {
+            resolve(instrument);
+          } else {
+            reject(
+              new QueryError(
+                "query-instrument-error",
+                `Instrument Not Found: ${symbol}`,
+              ),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  position(symbol: string, timeout?: number) {
+    return this._query<PositionData>(timeout, (resolve, reject) =>
+      this.trader.queryPosition(symbol, {
+        onPosition: (position) => {
+          if (position) {
+            resolve(position);
+          } else {
+            reject(
+              new QueryError(
+                "query-positions-error",
+                `Position Not Found: ${symbol}`,
+              ),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  instruments(type?: ProductType, timeout?: number) {
+    return this._query<InstrumentData[]>(timeout, (resolve, reject) =>
+      this.trader.queryInstruments(
+        {
+          onInstruments: (instruments) => {
+            if (instruments) {
+              resolve(instruments);
+            } else {
+              reject(
+                new QueryError(
+                  "query-instrument-error",
+                  "Query Instruments Failed",
+                ),
+              );
+            }
+          },
+        },
+        type,
+      ),
+    );
+  }
+
+  tradingAccounts(timeout?: number) {
+    return this._query<TradingAccount[]>(timeout, (resolve, reject) =>
+      this.queryTradingAccounts({
+        onTradingAccounts: (accounts) => {
+          if (accounts) {
+            resolve(accounts);
+          } else {
+            reject(
+              new QueryError(
+                "query-accounts-error",
+                "Query Trading Accounts Failed",
+              ),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  positions(timeout?: number) {
+    return this._query<PositionData[]>(timeout, (resolve, reject) =>
+      this.trader.queryPositions({
+        onPositions: (positions) => {
+          if (positions) {
+            resolve(positions);
+          } else {
+            reject(
+              new QueryError("query-positions-error", "Query Positions Failed"),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  positionDetails(timeout?: number) {
+    return this._query<PositionDetail[]>(timeout, (resolve, reject) =>
+      this.trader.queryPositionDetails({
+        onPositionDetails: (positionDetails) => {
+          if (positionDetails) {
+            resolve(positionDetails);
+          } else {
+            reject(
+              new QueryError(
+                "query-position-details-error",
+                "Query Position Details Failed",
+              ),
+            );
+          }
+        },
+      }),
+    );
+  }
+
+  orders(timeout?: number) {
+    return this._query<OrderData[]>(timeout, (resolve) =>
+      this.trader.queryOrders({
+        onOrders: (orders) => resolve(orders),
+      }),
+    );
+  }
+
+  private _placeStopOrder(
+    strategy: IStrategy,
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    params: StopOrderParams,
+    gate?: () => Promise<number>,
+  ) {
+    const id = `stop:${++this.stopOrderRef}`;
+    let priceTick = 1;
+
+    this.trader.queryInstrument(symbol, {
+      onInstrument: (instrument) => {
+        if (instrument) {
+          priceTick = instrument.priceTick;
+        }
+      },
+    });
+
+    const handle = createStopOrderHandle(
+      { id, symbol, offset, side, volume, priceTick },
+      params,
+      (price, flag, options) => {
+        this._releaseStopOrder(id, symbol);
+
+        const closeOffset = gate
+          ? this._calcCloseOffset(strategy, symbol, side, volume)
+          : offset;
+
+        const orderHandle = gate
+          ? this._createOrderHandle(
+              strategy,
+              symbol,
+              closeOffset,
+              side,
+              flag,
+              undefined,
+              options,
+            )
+          : this.placeOrder(
+              strategy,
+              symbol,
+              offset,
+              side,
+              volume,
+              price,
+              flag,
+              undefined,
+              options,
+            );
+
+        gate?.().then(
+          (volume) => {
+            if (volume > 0) {
+              this._sendOrder(
+                strategy,
+                orderHandle,
+                symbol,
+                closeOffset,
+                side,
+                volume,
+                price,
+                flag,
+                options ?? {},
+              );
+            } else {
+              orderHandle.onPlaceOrderError("Nothing To Close");
+            }
+          },
+          (error) => orderHandle.onPlaceOrderError(`${error}`),
+        );
+
+        strategy.onStopTriggered?.(handle.data, orderHandle);
+
+        return orderHandle;
+      },
+      () => {
+        this._releaseStopOrder(id, symbol);
+        strategy.onStopCanceled?.(handle.data);
+      },
+    );
+
+    if (handle.isDone) {
+      return handle;
+    }
+
+    this.stopOrders.set(id, { strategy, symbol, handle });
+
+    if (!this.stopSymbols.has(symbol)) {
+      this.stopSymbols.add(symbol);
+      this.market.subscribe([symbol], this.stopTickReceiver);
+    }
+
+    return handle;
+  }
+
+  private _releaseStopOrder(id: string, symbol: string) {
+    this.stopOrders.delete(id);
+
+    // Deferred so the market is not unsubscribed while it dispatches a tick.
+    queueMicrotask(() => {
+      for (const stopOrder of this.stopOrders.values()) {
+        if (stopOrder.symbol === symbol) {
+          return;
+        }
+      }
+
+      if (this.stopSymbols.delete(symbol)) {
+        this.market.unsubscribe([symbol], this.stopTickReceiver);
+      }
+    });
+  }
+
+  private _calcCloseOffset(
+    strategy: IStrategy,
+    symbol: string,
+    side: SideType,
+    volume: number,
+  ): OffsetType {
+    const [, exchangeId] = parseSymbol(symbol);
+    const position = this.getBookPosition(strategy, symbol);
+
+    const [split] = position
+      ? splitCloseVolume(
+          bookToPositionData(position),
+          side,
+          volume,
+          exchangeId,
+          "today-first",
+        )
+      : [];
+
+    return split?.offset ?? calcCloseOffsets(exchangeId, "today-first")[0]!;
+  }
+
+  private _createCloseReceiver(
+    receiver: IPlaceOrderResultReceiver,
+    count: number,
+  ): IPlaceOrderResultReceiver {
+    let sent = 0;
+    let failed = false;
+    let firstReceiptId: string | undefined;
+
+    return {
+      onPlaceOrderSent: (receiptId) => {
+        firstReceiptId ??= receiptId;
+
+        if (!failed && ++sent === count) {
+          receiver.onPlaceOrderSent(firstReceiptId);
+        }
+      },
+
+      onPlaceOrderError: (reason) => {
+        if (!failed) {
+          failed = true;
+          receiver.onPlaceOrderError(reason);
+        }
+      },
+    };
+  }
+
+  private _createOrderHandle(
+    strategy: IStrategy,
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    flag: OrderFlag,
+    receiver?: IPlaceOrderResultReceiver,
+    options: OrderOptions = {},
+  ): OrderHandle {
+    return createOrderHandle(
+      (price, volume, receiver) =>
+        this.placeOrder(
+          strategy,
+          symbol,
+          offset,
+          side,
+          volume,
+          price,
+          flag,
+          receiver,
+          options,
+        ),
+      (order, receiver) => this.cancelOrder(strategy, order, receiver),
+      receiver,
+    );
+  }
+
+  private _sendOrder(
+    strategy: IStrategy,
+    handle: OrderHandle,
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    options: OrderOptions,
+  ) {
+    if (offset !== "open" || this.placeOrderRiskManagers.length === 0) {
+      this._checkOrder(
+        strategy,
+        handle,
+        symbol,
+        offset,
+        side,
+        volume,
+        price,
+        flag,
+        options,
+      );
+      return;
+    }
+
+    this.trader.queryMarginRate(symbol, {
+      onMarginRate: (marginRate) => {
+        if (!marginRate) {
+          strategy.onRisk("place-order-risk", "Margin Rate Unavailable");
+          handle.onPlaceOrderError("Risk Rejected");
+          return;
+        }
+
+        this._checkOrder(
+          strategy,
+          handle,
+          symbol,
+          offset,
+          side,
+          volume,
+          price,
+          flag,
+          options,
+          marginRate,
+        );
+      },
+    });
+  }
+
+  private _checkOrder(
+    strategy: IStrategy,
+    handle: OrderHandle,
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    options: OrderOptions,
+    marginRate?: MarginRate,
+  ) {
+    let context: PlaceOrderContext | undefined;
+
+    for (const placeOrderRiskManager of this.placeOrderRiskManagers) {
+      context ??= this._createPlaceOrderContext(strategy, symbol);
+
+      if (!context) {
+        strategy.onRisk("place-order-risk", "Context Unavailable");
+        handle.onPlaceOrderError("Risk Rejected");
+        return;
+      }
+
+      const result = placeOrderRiskManager.onPlaceOrder(
+        symbol,
+        offset,
+        side,
+        volume,
+        price,
+        flag,
+        context,
+        options,
+      );
+
+      if (typeof result === "boolean") {
+        if (!result) {
+          strategy.onRisk("place-order-risk");
+          handle.onPlaceOrderError("Risk Rejected");
+          return;
+        }
+      } else if (typeof result === "string") {
+        strategy.onRisk("place-order-risk", result);
+        handle.onPlaceOrderError("Risk Rejected");
+        return;
+      } else {
+        strategy.onRisk("place-order-warning", result.warning);
+      }
+    }
+
+    this.placeOrderRiskManagers.forEach((placeOrderRiskManager) =>
+      placeOrderRiskManager.onPlaceOrderAccepted?.(
+        symbol,
+        offset,
+        side,
+        volume,
+        price,
+        flag,
+      ),
+    );
+
+    if (marginRate) {
+      this._holdMargin(handle, symbol, side, volume, price, marginRate);
+    }
+
+    this.trader.placeOrder(
+      symbol,
+      offset,
+      side,
+      volume,
+      price,
+      flag,
+      {
+        onPlaceOrderSent: (receiptId) => {
+          this.ownedOrders.set(receiptId, { strategy, handle });
+          handle.onPlaceOrderSent(receiptId);
+        },
+
+        onPlaceOrderError: (reason) => {
+          if (handle.receiptId) {
+            this.ownedOrders.delete(handle.receiptId);
+          }
+
+          this.pendingMargins.delete(handle);
+
+          handle.onPlaceOrderError(reason);
+        },
+      },
+      options,
+    );
+  }
+
+  private _routeOrder(ownedOrder?: OwnedOrder): IOrderReceiver | undefined {
+    if (ownedOrder && this.strategies.includes(ownedOrder.strategy)) {
+      return ownedOrder.strategy;
+    }
+
+    return this.unownedOrderReceiver;
+  }
+
+  private _createPlaceOrderContext(
+    strategy: IStrategy,
+    symbol: string,
+  ): PlaceOrderContext | undefined {
+    let instrument: InstrumentData | undefined;
+    let position: PositionData | undefined;
+    let orders: OrderData[] | undefined;
+
+    this.trader.queryInstrument(symbol, {
+      onInstrument: (data) => (instrument = data),
+    });
+
+    this.trader.queryPosition(symbol, {
+      onPosition: (data) => (position = data),
+    });
+
+    this.trader.queryOrders({
+      onOrders: (data) =>
+        (orders = data.filter(
+          (order) =>
+            order.status === "submitted" || order.status === "partially-filled",
+        )),
+    });
+
+    if (!instrument || !position || !orders) {
+      return undefined;
+    }
+
+    return Object.freeze({
+      strategy: strategy,
+      instrument: instrument,
+      position: position,
+      bookPosition: this.getBookPosition(strategy, symbol),
+      account: this._estimateAccount(),
+      tick: this.getLastTick(symbol),
+      orders: orders,
+    });
+  }
+
+  private _refreshAccount() {
+    this.trader.queryTradingAccounts({
+      onTradingAccounts: (accounts) => this._updateAccount(accounts),
+    });
+  }
+
+  private _updateAccount(accounts?: TradingAccount[]) {
+    if (accounts && accounts.length > 0) {
+      this.account = accounts[0];
+
+      this.pendingMargins.forEach((pending, handle) => {
+        if (pending.entrusted) {
+          this.pendingMargins.delete(handle);
+        }
+      });
+    }
+  }
+
+  private _estimateAccount() {
+    if (!this.account || this.pendingMargins.size === 0) {
+      return this.account;
+    }
+
+    let margin = 0;
+
+    this.pendingMargins.forEach((pending) => (margin += pending.margin));
+
+    return Object.freeze({
+      ...this.account,
+      cash: this.account.cash - margin,
+      frozenMargin: this.account.frozenMargin + margin,
+    });
+  }
+
+  private _holdMargin(
+    handle: OrderHandle,
+    symbol: string,
+    side: SideType,
+    volume: number,
+    price: number,
+    marginRate: MarginRate,
+  ) {
+    let instrument: InstrumentData | undefined;
+
+    this.trader.queryInstrument(symbol, {
+      onInstrument: (data) => (instrument = data),
+    });
+
+    const orderPrice = price > 0 ? price : this.getLastTick(symbol)?.lastPrice;
+
+    if (!instrument || !orderPrice) {
+      return;
+    }
+
+    const ratio = side === "long" ? marginRate.long : marginRate.short;
+    const margin =
+      orderPrice * volume * instrument.multiple * ratio.ratio +
+      volume * ratio.amount;
+
+    this.pendingMargins.set(handle, { margin: margin, entrusted: false });
+  }
+
+  private _settleMargin(handle: OrderHandle) {
+    const pending = this.pendingMargins.get(handle);
+
+    if (pending && !pending.entrusted) {
+      pending.entrusted = true;
+      this._refreshAccount();
+    }
+  }
+
+  private _settleBook(strategy: IStrategy) {
+    const book = this.books.get(strategy);
+
+    if (book) {
+      book.settle(this.trader.getTradingDay());
+    }
+
+    return book;
+  }
+
+  private _bookTrade(strategy: IStrategy, order: OrderData, trade: TradeData) {
+    let book = this.books.get(strategy);
+
+    if (!book) {
+      book = createPositionBook();
+      this.books.set(strategy, book);
+    }
+
+    book.settle(this.trader.getTradingDay());
+
+    this.trader.queryInstrument(order.symbol, {
+      onInstrument: (instrument) =>
+        book.onTrade(order, trade, instrument ? instrument.multiple : 1),
+    });
+
+    if (this._isBookFlat(order.symbol)) {
+      if (this.bookSymbols.delete(order.symbol)) {
+        this.market.unsubscribe([order.symbol], this.bookTickReceiver);
+      }
+    } else if (!this.bookSymbols.has(order.symbol)) {
+      this.bookSymbols.add(order.symbol);
+      this.market.subscribe([order.symbol], this.bookTickReceiver);
+    }
+  }
+
+  private _isBookFlat(symbol: string) {
+    for (const book of this.books.values()) {
+      const position = book.getPosition(symbol);
+
+      if (
+        position &&
+        position.long.today +
+          position.long.history +
+          position.short.today +
+          position.short.history >
+          0
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private _releaseOrder(receiptId: string, ownedOrder: OwnedOrder) {
+    if (ownedOrder.handle.isDone) {
+      this.ownedOrders.delete(receiptId);
+    }
+  }
+
+  private _query<T>(
+    timeout: number | undefined,
+    request: (resolve: QueryResolve<T>, reject: QueryReject) => void,
+  ) {
+    return new Promise<T>((resolve, reject) => {
+      if (!this.opened) {
+        reject(new QueryError("provider-closed", "Provider Closed"));
+        return;
+      }
+
+      const settle = () => {
+        if (!this.pendingQueries.has(pending)) {
+          return false;
+        }
+
+        clearTimeout(timer);
+        this.pendingQueries.delete(pending);
+
+        return true;
+      };
+
+      const pending: QueryReject = (error) => {
+        if (settle()) {
+          reject(error);
+        }
+      };
+
+      const timer = setTimeout(
+        () => pending(new QueryError("query-timeout", "Query Timeout")),
+        timeout ?? this.queryTimeout,
+      );
+
+      this.pendingQueries.add(pending);
+
+      request((value) => {
+        if (settle()) {
+          resolve(value);
+        }
+      }, pending);
+    });
+  }
 }
 
 export const createBroker = (
   trader: ITraderProvider,
   market: IMarketProvider,
   errorReceiver?: IErrorReceiver,
-) => new Broker(trader, market, errorReceiver);
+  options?: BrokerOptions,
+) => new Broker(trader, market, errorReceiver, options);
@@ -0,0 +1,44 @@
+/*
+ * calendar.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTradingCalendar } from "./calendar.js";
+
+describe("TradingCalendar", () => {
+  it("assigns night sessions to the next trading day", () => {
+    const calendar = createTradingCalendar();
+
+    assert.equal(calendar.getTradingDay(20250102, 210000), 20250103);
+    assert.equal(calendar.getTradingDay(20250103, 213000), 20250106);
+    assert.equal(calendar.getTradingDay(20250104, 13000), 20250106);
+    assert.equal(calendar.getTradingDay(20250106, 93000), 20250106);
+  });
+
+  it("skips holidays and drops the night session after them", () => {
+    const calendar = createTradingCalendar({ holidays: [20250106] });
+
+    assert.equal(calendar.getTradingDay(20250103, 213000), 20250107);
+    assert.equal(calendar.hasNightSession(20250107), false);
+    assert.equal(calendar.hasNightSession(20250108), true);
+    assert.equal(calendar.getSessions("rb2510.SHFE", 20250107).length, 3);
+    assert.equal(calendar.getSessions("rb2510.SHFE", 20250108).length, 4);
+  });
+
+  it("finds sessions across midnight", () => {
+    const calendar = createTradingCalendar();
+
+    assert.equal(calendar.findSession("cu2510.SHFE", 5959)?.night, true);
+    assert.equal(calendar.findSession("cu2510.SHFE", 13000), undefined);
+    assert.equal(calendar.isContinuous("rb2510.SHFE", 102000), false);
+    assert.equal(calendar.getSessionClose("IF2509.CFFEX", 100000), 113000);
+  });
+});
@@ -0,0 +1,287 @@
+/*
+ * calendar.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import fs from "node:fs";
+import type { TradingSession } from "./typedef.js";
+import type { ITradingCalendar } from "./interfaces.js";
+import { parseSymbol, timeToSeconds, timeToTradingSeconds } from "./utils.js";
+
+export type TradingCalendarOptions = {
+  holidays?: number[];
+  sessions?: Record<string, TradingSession[]>;
+};
+
+const createSession = (open: number, close: number, night = false) =>
+  Object.freeze({ open, close, night });
+
+const CommodityDaySessions = [
+  createSession(90000, 101500),
+  createSession(103000, 113000),
+  createSession(133000, 150000),
+];
+
+const ExchangeSessions: Record<string, TradingSession[]> = {
+  SHFE: CommodityDaySessions,
+  INE: CommodityDaySessions,
+  DCE: CommodityDaySessions,
+  CZCE: CommodityDaySessions,
+  GFEX: CommodityDaySessions,
+  CFFEX: [createSession(93000, 113000), createSession(130000, 150000)],
+};
+
+const NightCloses: Record<string, number> = {
+  "SHFE.au": 23000,
+  "SHFE.ag": 23000,
+  "SHFE.cu": 10000,
+  "SHFE.al": 10000,
+  "SHFE.zn": 10000,
+  "SHFE.pb": 10000,
+  "SHFE.ni": 10000,
+  "SHFE.sn": 10000,
+  "SHFE.ss": 10000,
+  "SHFE.ao": 10000,
+  "SHFE.rb": 230000,
+  "SHFE.hc": 230000,
+  "SHFE.fu": 230000,
+  "SHFE.bu": 230000,
+  "SHFE.ru": 230000,
+  "SHFE.sp": 230000,
+  "SHFE.br": 230000,
+  "INE.sc": 23000,
+  "INE.bc": 10000,
+  "INE.nr": 230000,
+  "INE.lu": 230000,
+  "DCE.a": 230000,
+  "DCE.b": 230000,
+  "DCE.m": 230000,
+  "DCE.y": 230000,
+  "DCE.p": 230000,
+  "DCE.c": 230000,
+  "DCE.cs": 230000,
+  "DCE.i": 230000,
+  "DCE.j": 230000,
+  "DCE.jm": 230000,
+  "DCE.l": 230000,
+  "DCE.v": 230000,
+  "DCE.pp": 230000,
+  "DCE.eg": 230000,
+  "DCE.eb": 230000,
+  "DCE.pg": 230000,
+  "DCE.rr": 230000,
+  "CZCE.SR": 230000,
+  "CZCE.CF": 230000,
+  "CZCE.CY": 230000,
+  "CZCE.TA": 230000,
+  "CZCE.MA": 230000,
+  "CZCE.FG": 230000,
+  "CZCE.RM": 230000,
+  "CZCE.OI": 230000,
+  "CZCE.SA": 230000,
+  "CZCE.PF": 230000,
+  "CZCE.SH": 230000,
+  "CZCE.PX": 230000,
+};
+
+const TreasuryProducts = ["T", "TF", "TS", "TL"];
+
+const toDate = (date: number) =>
+  new Date(
+    Date.UTC(
+      Math.floor(date / 10000),
+      (Math.floor(date / 100) % 100) - 1,
+      date % 100,
+    ),
+  );
+
+const fromDate = (date: Date) =>
+  date.getUTCFullYear() * 10000 +
+  (date.getUTCMonth() + 1) * 100 +
+  date.getUTCDate();
+
+const addDays = (date: number, days: number) => {
+  const day = toDate(date);
+
+  day.setUTCDate(day.getUTCDate() + days);
+
+  return fromDate(day);
+};
+
+const isWeekend = (date: number) => {
+  const weekday = toDate(date).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+export const parseProduct = (symbol: string) => {
+  const [instrumentId, exchangeId] = parseSymbol(symbol);
+  const [productId = ""] = /^[A-Za-z]+/.exec(instrumentId) ?? [];
+
+  return [productId, exchangeId] as const;
+};
+
+export class TradingCalendar implements ITradingCalendar {
+  private readonly holidays: Set<number>;
+  private readonly sessions: Map<string, TradingSession[]>;
+
+  constructor(options?: TradingCalendarOptions) {
+    this.holidays = new Set(options?.holidays);
+    this.sessions = new Map();
+
+    if (options?.sessions) {
+      for (const key in options.sessions) {
+        this.setSessions(key, options.sessions[key]!);
+      }
+    }
+  }
+
+  loadHolidays(filePath: string) {
+    const content = fs.readFileSync(filePath, "utf8").trim();
+
+    const days: unknown[] = content.startsWith("[")
+      ? JSON.parse(content)
+      : content
+          .split(/\r?\n/)
+          .map((line) => line.replace(/#.*$/, "").trim())
+          .filter((line) => line !== "");
+
+    this.addHolidays(days.map((day) => parseInt(`${day}`)));
+  }
+
+  addHolidays(days: number[]) {
+    days.forEach((day) => {
+      if (!isNaN(day)) {
+        this.holidays.add(day);
+      }
+    });
+  }
+
+  setSessions(key: string, sessions: TradingSession[]) {
+    this.sessions.set(
+      key,
+      sessions
+        .map((session) => Object.freeze({ ...session }))
+        .sort(
+          (a, b) => timeToTradingSeconds(a.open) - timeToTradingSeconds(b.open),
+        ),
+    );
+  }
+
+  isHoliday(date: number) {
+    return this.holidays.has(date);
+  }
+
+  isTradingDay(date: number) {
+    return !isWeekend(date) && !this.holidays.has(date);
+  }
+
+  nextTradingDay(date: number) {
+    let day = addDays(date, 1);
+
+    while (!this.isTradingDay(day)) {
+      day = addDays(day, 1);
+    }
+
+    return day;
+  }
+
+  prevTradingDay(date: number) {
+    let day = addDays(date, -1);
+
+    while (!this.isTradingDay(day)) {
+      day = addDays(day, -1);
+    }
+
+    return day;
+  }
+
+  hasNightSession(tradingDay: number) {
+    if (!this.isTradingDay(tradingDay)) {
+      return false;
+    }
+
+    const prevDay = this.prevTradingDay(tradingDay);
+
+    for (
+      let day = addDays(prevDay, 1);
+      day < tradingDay;
+      day = addDays(day, 1)
+    ) {
+      if (this.holidays.has(day)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  getTradingDay(date: number, time: number) {
+    const seconds = timeToSeconds(time);
+
+    if (seconds >= 64800) {
+      return this.nextTradingDay(date);
+    }
+
+    if (seconds < 21600) {
+      return this.nextTradingDay(addDays(date, -1));
+    }
+
+    return this.isTradingDay(date) ? date : this.nextTradingDay(date);
+  }
+
+  getSessions(symbol: string, tradingDay?: number) {
+    const [productId, exchangeId] = parseProduct(symbol);
+
+    const sessions =
+      this.sessions.get(`${exchangeId}.${productId}`) ??
+      this.sessions.get(exchangeId) ??
+      this._getDefaultSessions(exchangeId, productId);
+
+    if (tradingDay === undefined || this.hasNightSession(tradingDay)) {
+      return sessions;
+    }
+
+    return sessions.filter((session) => !session.night);
+  }
+
+  findSession(symbol: string, time: number, auction = 0) {
+    const seconds = timeToTradingSeconds(time);
+
+    return this.getSessions(symbol).find(
+      (session) =>
+        seconds >= timeToTradingSeconds(session.open) - auction &&
+        seconds <= timeToTradingSeconds(session.close),
+    );
+  }
+
+  isContinuous(symbol: string, time: number) {
+    return this.findSession(symbol, time) !== undefined;
+  }
+
+  getSessionClose(symbol: string, time: number) {
+    const session = this.findSession(symbol, time);
+    return session ? session.close : undefined;
+  }
+
+  private _getDefaultSessions(exchangeId: string, productId: string) {
+    if (exchangeId === "CFFEX" && TreasuryProducts.includes(productId)) {
+      return [createSession(93000, 113000), createSession(130000, 151500)];
+    }
+
+    const sessions = ExchangeSessions[exchangeId] ?? CommodityDaySessions;
+    const nightClose = NightCloses[`${exchangeId}.${productId}`];
+
+    return nightClose === undefined
+      ? sessions
+      : [createSession(210000, nightClose, true), ...sessions];
+  }
+}
+
+export const createTradingCalendar = (options?: TradingCalendarOptions) =>
+  new TradingCalendar(options);
@@ -0,0 +1,86 @@
+/*
+ * depth.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type { DepthMarketDataField } from "@napi-ctp/types";
+import type { OrderBook, TapeSide, TickData } from "./typedef.js";
+import { isValidPrice, isValidVolume, parseTime } from "./utils.js";
+
+export const DefaultDepth = 5;
+
+const toTapeSide = (
+  depthMarketData: DepthMarketDataField,
+  prefix: "Ask" | "Bid",
+  depth: number,
+): TapeSide => {
+  const fields = depthMarketData as unknown as Record<string, unknown>;
+  const tapeSide: TapeSide = { price: [], volume: [] };
+
+  for (let level = 1; level <= depth; ++level) {
+    const price = fields[`${prefix}Price${level}`];
+    const volume = fields[`${prefix}Volume${level}`];
+
+    if (
+      typeof price !== "number" ||
+      typeof volume !== "number" ||
+      !isValidPrice(price) ||
+      !isValidVolume(volume)
+    ) {
+      break;
+    }
+
+    tapeSide.price.push(price);
+    tapeSide.volume.push(volume);
+  }
+
+  return tapeSide;
+};
+
+export const toOrderBook = (
+  depthMarketData: DepthMarketDataField,
+  depth: number = DefaultDepth,
+): OrderBook =>
+  Object.freeze({
+    asks: toTapeSide(depthMarketData, "Ask", depth),
+    bids: toTapeSide(depthMarketData, "Bid", depth),
+  });
+
+export const toTickData = (
+  symbol: string,
+  depthMarketData: DepthMarketDataField,
+  depth?: number,
+): TickData => {
+  const time = parseTime(depthMarketData.UpdateTime);
+
+  return Object.freeze({
+    symbol: symbol,
+    date: parseInt(depthMarketData.ActionDay),
+    time: time + depthMarketData.UpdateMillisec / 1000,
+    tradingDay: parseInt(depthMarketData.TradingDay),
+    preOpenInterest: depthMarketData.PreOpenInterest,
+    preClose: depthMarketData.PreClosePrice,
+    openInterest: depthMarketData.OpenInterest,
+    openPrice: depthMarketData.OpenPrice,
+    highPrice: depthMarketData.HighestPrice,
+    lowPrice: depthMarketData.LowestPrice,
+    lastPrice: depthMarketData.LastPrice,
+    volume: depthMarketData.Volume,
+    amount: depthMarketData.Turnover,
+    limits: Object.freeze({
+      upper: depthMarketData.UpperLimitPrice,
+      lower: depthMarketData.LowerLimitPrice,
+    }),
+    bandings: Object.freeze({
+      upper: depthMarketData.BandingUpperPrice,
+      lower: depthMarketData.BandingLowerPrice,
+    }),
+    orderBook: toOrderBook(depthMarketData, depth),
+  });
+};
@@ -0,0 +1,36 @@
+/*
+ * errors.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type { OrderData } from "./typedef.js";
+import type { QueryErrorType } from "./interfaces.js";
+
+export class QueryError extends Error {
+  readonly type: QueryErrorType;
+
+  constructor(type: QueryErrorType, message: string) {
+    super(message);
+    this.name = "QueryError";
+    this.type = type;
+  }
+}
+
+export class OrderError extends Error {
+  readonly order?: OrderData;
+
+  constructor(message: string, order?: OrderData) {
+    super(message);
+    this.name = "OrderError";
+
+    if (order) {
+      this.order = order;
+    }
+  }
+}
@@ -73,6 +73,8 @@ class Strategy implements hft.IStrategy, hft.ITickReceiver, hft.IBarReceiver {
       },
     });
 
+    this.queryAccount();
+
     this.engine.queryOrders({
       onOrders: (orders) => {
         console.log("Orders", orders);
@@ -120,6 +122,18 @@ class Strategy implements hft.IStrategy, hft.ITickReceiver, hft.IBarReceiver {
     }, 30 * 1000);
   }
 
+  async queryAccount() {
+    try {
+      const accounts = await this.engine.tradingAccounts();
+      console.log("Trading Accounts (async)", accounts);
+
+      const positions = await this.engine.positions();
+      console.log("Positions (async)", positions);
+    } catch (error) {
+      console.error("Query Error", error);
+    }
+  }
+
   onDestroy() {
     this.engine.unsubscribeBar([this.symbol], this);
     this.engine.unsubscribe([this.symbol], this);
@@ -11,9 +11,25 @@
 
 export * from "./typedef.js";
 export * from "./interfaces.js";
+export * from "./errors.js";
 export * from "./broker.js";
+export * from "./order.js";
+export * from "./bracket.js";
 export * from "./trader.js";
 export * from "./market.js";
+export * from "./simulator.js";
+export * from "./replay.js";
+export * from "./recorder.js";
 export * from "./utils.js";
 export * from "./tape.js";
+export * from "./depth.js";
+export * from "./orderbook.js";
+export * from "./queue.js";
 export * from "./bar.js";
+export * from "./calendar.js";
+export * from "./store.js";
+export * from "./indicator.js";
+export * from "./orderflow.js";
+export * from "./position.js";
+export * from "./resync.js";
+export * from "./risk.js";
@@ -0,0 +1,109 @@
+/*
+ * indicator.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  chainIndicators,
+  createBollingerBands,
+  createEMA,
+  createPriceSource,
+  createRSI,
+  createSMA,
+  createWMA,
+} from "./indicator.js";
+import { TestSymbol } from "./testing.js";
+import type { BarData } from "./typedef.js";
+
+const createBar = (closePrice: number): BarData => ({
+  symbol: TestSymbol,
+  date: 20250102,
+  time: 93000,
+  openInterest: 0,
+  openPrice: closePrice,
+  highPrice: closePrice,
+  lowPrice: closePrice,
+  closePrice: closePrice,
+  volume: 0,
+  amount: 0,
+  delta: 0,
+  poc: closePrice,
+  buyVolumes: {},
+  sellVolumes: {},
+});
+
+describe("SMA", () => {
+  it("rolls a fixed window", () => {
+    const sma = createSMA(3);
+
+    assert.equal(sma.warmup([1, 2]), undefined);
+    assert.equal(sma.update(3), 2);
+    assert.equal(sma.update(7), 4);
+    assert.equal(sma.isReady, true);
+  });
+
+  it("peeks without committing", () => {
+    const sma = createSMA(2);
+
+    sma.warmup([2, 4]);
+
+    assert.equal(sma.peek(10), 7);
+    assert.equal(sma.current, 7);
+    assert.equal(sma.value, 3);
+    assert.equal(sma.update(6), 5);
+    assert.equal(sma.current, 5);
+  });
+});
+
+describe("EMA", () => {
+  it("seeds with the simple average", () => {
+    const ema = createEMA(3);
+
+    assert.equal(ema.warmup([1, 2, 3]), 2);
+    assert.equal(ema.update(6), 4);
+  });
+});
+
+describe("WMA", () => {
+  it("weights recent values more", () => {
+    const wma = createWMA(3);
+
+    assert.equal(wma.warmup([1, 2, 3]), 14 / 6);
+    assert.equal(wma.update(6), 26 / 6);
+  });
+});
+
+describe("RSI", () => {
+  it("saturates on one-way moves", () => {
+    assert.equal(createRSI(3).warmup([1, 2, 3, 4]), 100);
+    assert.equal(createRSI(3).warmup([4, 3, 2, 1]), 0);
+    assert.equal(createRSI(3).warmup([1, 1, 1, 1]), 50);
+  });
+});
+
+describe("BollingerBands", () => {
+  it("returns a flat band for constant prices", () => {
+    assert.deepEqual(createBollingerBands(3).warmup([5, 5, 5]), {
+      upper: 5,
+      middle: 5,
+      lower: 5,
+    });
+  });
+});
+
+describe("chainIndicators", () => {
+  it("feeds bar prices into a value indicator", () => {
+    const indicator = chainIndicators(createPriceSource(), createSMA(2));
+
+    assert.equal(indicator.update(createBar(3000)), undefined);
+    assert.equal(indicator.update(createBar(3010)), 3005);
+  });
+});
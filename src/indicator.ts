@@ -0,0 +1,713 @@
+/*
+ * indicator.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type { BarData } from "./typedef.js";
+import type {
+  IBarReceiver,
+  IIndicator,
+  ITradingCalendar,
+} from "./interfaces.js";
+import { createTradingCalendar } from "./calendar.js";
+
+export type PriceSelector = (bar: BarData) => number;
+
+export type MACDValue = Readonly<{
+  macd: number;
+  signal: number;
+  histogram: number;
+}>;
+
+export type BandValue = Readonly<{
+  upper: number;
+  middle: number;
+  lower: number;
+}>;
+
+const ClosePrice: PriceSelector = (bar) => bar.closePrice;
+
+const nextValue = <I, O>(
+  indicator: IIndicator<I, O>,
+  input: I,
+  commit: boolean,
+) => (commit ? indicator.update(input) : indicator.peek(input));
+
+class RingWindow {
+  private readonly values: number[];
+  private readonly capacity: number;
+  private start: number;
+  private size: number;
+
+  constructor(capacity: number) {
+    this.values = new Array(capacity).fill(0);
+    this.capacity = capacity;
+    this.start = 0;
+    this.size = 0;
+  }
+
+  get length() {
+    return this.size;
+  }
+
+  get isFull() {
+    return this.size === this.capacity;
+  }
+
+  get oldest() {
+    return this.isFull ? this.values[this.start]! : 0;
+  }
+
+  push(value: number) {
+    if (this.isFull) {
+      this.values[this.start] = value;
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.values[(this.start + this.size) % this.capacity] = value;
+      this.size += 1;
+    }
+  }
+
+  clear() {
+    this.start = 0;
+    this.size = 0;
+  }
+}
+
+class ExtremeWindow {
+  private readonly period: number;
+  private readonly compare: (a: number, b: number) => boolean;
+  private entries: [number, number][];
+  private index: number;
+
+  constructor(period: number, compare: (a: number, b: number) => boolean) {
+    this.period = period;
+    this.compare = compare;
+    this.entries = [];
+    this.index = 0;
+  }
+
+  get length() {
+    return Math.min(this.index, this.period);
+  }
+
+  peek(value: number) {
+    const [first, second] = this.entries;
+    const entry = first && first[0] > this.index - this.period ? first : second;
+
+    return entry && this.compare(entry[1], value) ? entry[1] : value;
+  }
+
+  push(value: number) {
+    while (
+      this.entries.length > 0 &&
+      !this.compare(this.entries[this.entries.length - 1]![1], value)
+    ) {
+      this.entries.pop();
+    }
+
+    this.entries.push([this.index, value]);
+    this.index += 1;
+
+    const expired = this.index - this.period;
+
+    while (this.entries[0]![0] < expired) {
+      this.entries.shift();
+    }
+  }
+
+  clear() {
+    this.entries = [];
+    this.index = 0;
+  }
+}
+
+export abstract class Indicator<I, O> implements IIndicator<I, O> {
+  private _value?: O;
+  private _current?: O;
+  private _count: number;
+
+  constructor() {
+    this._count = 0;
+  }
+
+  get value() {
+    return this._value;
+  }
+
+  get current() {
+    return this._current ?? this._value;
+  }
+
+  get count() {
+    return this._count;
+  }
+
+  get isReady() {
+    return this._value !== undefined;
+  }
+
+  update(input: I) {
+    const value = this._compute(input, true);
+
+    this._count += 1;
+    this._current = undefined;
+
+    if (value !== undefined) {
+      this._value = value;
+    }
+
+    return value;
+  }
+
+  peek(input: I) {
+    const value = this._compute(input, false);
+
+    if (value !== undefined) {
+      this._current = value;
+    }
+
+    return value;
+  }
+
+  warmup(inputs: I[]) {
+    inputs.forEach((input) => this.update(input));
+    return this._value;
+  }
+
+  reset() {
+    this._value = undefined;
+    this._current = undefined;
+    this._count = 0;
+    this._reset();
+  }
+
+  protected abstract _compute(input: I, commit: boolean): O | undefined;
+  protected abstract _reset(): void;
+}
+
+export class PriceSource extends Indicator<BarData, number> {
+  private readonly selector: PriceSelector;
+
+  constructor(selector: PriceSelector = ClosePrice) {
+    super();
+    this.selector = selector;
+  }
+
+  protected _compute(bar: BarData) {
+    return this.selector(bar);
+  }
+
+  protected _reset() {}
+}
+
+export class ChainedIndicator<I, M, O> extends Indicator<I, O> {
+  private readonly first: IIndicator<I, M>;
+  private readonly second: IIndicator<M, O>;
+
+  constructor(first: IIndicator<I, M>, second: IIndicator<M, O>) {
+    super();
+    this.first = first;
+    this.second = second;
+  }
+
+  protected _compute(input: I, commit: boolean) {
+    const value = nextValue(this.first, input, commit);
+    return value === undefined
+      ? undefined
+      : nextValue(this.second, value, commit);
+  }
+
+  protected _reset() {
+    this.first.reset();
+    this.second.reset();
+  }
+}
+
+export class SMA extends Indicator<number, number> {
+  private readonly period: number;
+  private readonly window: RingWindow;
+  private sum: number;
+
+  constructor(period: number) {
+    super();
+    this.period = period;
+    this.window = new RingWindow(period);
+    this.sum = 0;
+  }
+
+  protected _compute(value: number, commit: boolean) {
+    const sum = this.sum + value - this.window.oldest;
+    const length = Math.min(this.window.length + 1, this.period);
+
+    if (commit) {
+      this.window.push(value);
+      this.sum = sum;
+    }
+
+    return length < this.period ? undefined : sum / this.period;
+  }
+
+  protected _reset() {
+    this.window.clear();
+    this.sum = 0;
+  }
+}
+
+export class EMA extends Indicator<number, number> {
+  private readonly period: number;
+  private readonly alpha: number;
+  private ema?: number;
+  private seed: number;
+  private seeds: number;
+
+  constructor(period: number, alpha = 2 / (period + 1)) {
+    super();
+    this.period = period;
+    this.alpha = alpha;
+    this.seed = 0;
+    this.seeds = 0;
+  }
+
+  protected _compute(value: number, commit: boolean) {
+    if (this.ema !== undefined) {
+      const ema = this.ema + this.alpha * (value - this.ema);
+
+      if (commit) {
+        this.ema = ema;
+      }
+
+      return ema;
+    }
+
+    const seed = this.seed + value;
+    const seeds = this.seeds + 1;
+    const ema = seeds < this.period ? undefined : seed / this.period;
+
+    if (commit) {
+      this.seed = seed;
+      this.seeds = seeds;
+
+      if (ema !== undefined) {
+        this.ema = ema;
+      }
+    }
+
+    return ema;
+  }
+
+  protected _reset() {
+    this.ema = undefined;
+    this.seed = 0;
+    this.seeds = 0;
+  }
+}
+
+export class WMA extends Indicator<number, number> {
+  private readonly period: number;
+  private readonly window: RingWindow;
+  private sum: number;
+  private weighted: number;
+
+  constructor(period: number) {
+    super();
+    this.period = period;
+    this.window = new RingWindow(period);
+    this.sum = 0;
+    this.weighted = 0;
+  }
+
+  protected _compute(value: number, commit: boolean) {
+    const length = Math.min(this.window.length + 1, this.period);
+
+    const weighted = this.window.isFull
+      ? this.weighted - this.sum + this.period * value
+      : this.weighted + length * value;
+
+    const sum = this.sum + value - this.window.oldest;
+
+    if (commit) {
+      this.window.push(value);
+      this.sum = sum;
+      this.weighted = weighted;
+    }
+
+    if (length < this.period) {
+      return undefined;
+    }
+
+    return weighted / ((this.period * (this.period + 1)) / 2);
+  }
+
+  protected _reset() {
+    this.window.clear();
+    this.sum = 0;
+    this.weighted = 0;
+  }
+}
+
+export class MACD extends Indicator<number, MACDValue> {
+  private readonly fast: EMA;
+  private readonly slow: EMA;
+  private readonly signal: EMA;
+
+  constructor(fast = 12, slow = 26, signal = 9) {
+    super();
+    this.fast = new EMA(fast);
+    this.slow = new EMA(slow);
+    this.signal = new EMA(signal);
+  }
+
+  protected _compute(value: number, commit: boolean) {
+    const fast = nextValue(this.fast, value, commit);
+    const slow = nextValue(this.slow, value, commit);
+
+    if (fast === undefined || slow === undefined) {
+      return undefined;
+    }
+
+    const macd = fast - slow;
+    const signal = nextValue(this.signal, macd, commit);
+
+    if (signal === undefined) {
+      return undefined;
+    }
+
+    return Object.freeze({ macd, signal, histogram: macd - signal });
+  }
+
+  protected _reset() {
+    this.fast.reset();
+    this.slow.reset();
+    this.signal.reset();
+  }
+}
+
+export class RSI extends Indicator<number, number> {
+  private readonly period: number;
+  private prevValue?: number;
+  private avgGain: number;
+  private avgLoss: number;
+  private changes: number;
+
+  constructor(period = 14) {
+    super();
+    this.period = period;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.changes = 0;
+  }
+
+  protected _compute(value: number, commit: boolean) {
+    if (this.prevValue === undefined) {
+      if (commit) {
+        this.prevValue = value;
+      }
+
+      return undefined;
+    }
+
+    const change = value - this.prevValue;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    const changes = this.changes + 1;
+
+    const weight = Math.min(changes, this.period);
+    const avgGain = (this.avgGain * (weight - 1) + gain) / weight;
+    const avgLoss = (this.avgLoss * (weight - 1) + loss) / weight;
+
+    if (commit) {
+      this.prevValue = value;
+      this.avgGain = avgGain;
+      this.avgLoss = avgLoss;
+      this.changes = changes;
+    }
+
+    if (changes < this.period) {
+      return undefined;
+    }
+
+    if (avgLoss === 0) {
+      return avgGain === 0 ? 50 : 100;
+    }
+
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  protected _reset() {
+    this.prevValue = undefined;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.changes = 0;
+  }
+}
+
+export class BollingerBands extends Indicator<number, BandValue> {
+  private readonly period: number;
+  private readonly multiplier: number;
+  private readonly window: RingWindow;
+  private readonly squares: RingWindow;
+  private sum: number;
+  private sumSquares: number;
+
+  constructor(period = 20, multiplier = 2) {
+    super();
+    this.period = period;
+    this.multiplier = multiplier;
+    this.window = new RingWindow(period);
+    this.squares = new RingWindow(period);
+    this.sum = 0;
+    this.sumSquares = 0;
+  }
+
+  protected _compute(value: number, commit: boolean) {
+    const sum = this.sum + value - this.window.oldest;
+    const sumSquares = this.sumSquares + value * value - this.squares.oldest;
+    const length = Math.min(this.window.length + 1, this.period);
+
+    if (commit) {
+      this.window.push(value);
+      this.squares.push(value * value);
+      this.sum = sum;
+      this.sumSquares = sumSquares;
+    }
+
+    if (length < this.period) {
+      return undefined;
+    }
+
+    const middle = sum / this.period;
+    const variance = Math.max(sumSquares / this.period - middle * middle, 0);
+    const width = Math.sqrt(variance) * this.multiplier;
+
+    return Object.freeze({
+      upper: middle + width,
+      middle,
+      lower: middle - width,
+    });
+  }
+
+  protected _reset() {
+    this.window.clear();
+    this.squares.clear();
+    this.sum = 0;
+    this.sumSquares = 0;
+  }
+}
+
+export class ATR extends Indicator<BarData, number> {
+  private readonly period: number;
+  private prevClose?: number;
+  private atr: number;
+  private ranges: number;
+
+  constructor(period = 14) {
+    super();
+    this.period = period;
+    this.atr = 0;
+    this.ranges = 0;
+  }
+
+  protected _compute(bar: BarData, commit: boolean) {
+    const trueRange =
+      this.prevClose === undefined
+        ? bar.highPrice - bar.lowPrice
+        : Math.max(bar.highPrice, this.prevClose) -
+          Math.min(bar.lowPrice, this.prevClose);
+
+    const ranges = this.ranges + 1;
+    const weight = Math.min(ranges, this.period);
+    const atr = (this.atr * (weight - 1) + trueRange) / weight;
+
+    if (commit) {
+      this.prevClose = bar.closePrice;
+      this.atr = atr;
+      this.ranges = ranges;
+    }
+
+    return ranges < this.period ? undefined : atr;
+  }
+
+  protected _reset() {
+    this.prevClose = undefined;
+    this.atr = 0;
+    this.ranges = 0;
+  }
+}
+
+export class VWAP extends Indicator<BarData, number> {
+  private readonly multiple: number;
+  private readonly calendar: ITradingCalendar;
+  private tradingDay: number;
+  private volume: number;
+  private amount: number;
+
+  constructor(multiple = 1, calendar?: ITradingCalendar) {
+    super();
+    this.multiple = multiple;
+    this.calendar = calendar ?? createTradingCalendar();
+    this.tradingDay = 0;
+    this.volume = 0;
+    this.amount = 0;
+  }
+
+  protected _compute(bar: BarData, commit: boolean) {
+    const tradingDay = this.calendar.getTradingDay(bar.date, bar.time);
+    const isNewDay = tradingDay !== this.tradingDay;
+
+    const volume = (isNewDay ? 0 : this.volume) + bar.volume;
+    const amount = (isNewDay ? 0 : this.amount) + bar.amount;
+
+    if (commit) {
+      this.tradingDay = tradingDay;
+      this.volume = volume;
+      this.amount = amount;
+    }
+
+    return volume > 0 ? amount / volume / this.multiple : undefined;
+  }
+
+  protected _reset() {
+    this.tradingDay = 0;
+    this.volume = 0;
+    this.amount = 0;
+  }
+}
+
+export class DonchianChannel extends Indicator<BarData, BandValue> {
+  private readonly period: number;
+  private readonly highs: ExtremeWindow;
+  private readonly lows: ExtremeWindow;
+
+  constructor(period = 20) {
+    super();
+    this.period = period;
+    this.highs = new ExtremeWindow(period, (a, b) => a > b);
+    this.lows = new ExtremeWindow(period, (a, b) => a < b);
+  }
+
+  protected _compute(bar: BarData, commit: boolean) {
+    const length = Math.min(this.highs.length + 1, this.period);
+    const upper = this.highs.peek(bar.highPrice);
+    const lower = this.lows.peek(bar.lowPrice);
+
+    if (commit) {
+      this.highs.push(bar.highPrice);
+      this.lows.push(bar.lowPrice);
+    }
+
+    if (length < this.period) {
+      return undefined;
+    }
+
+    return Object.freeze({ upper, middle: (upper + lower) / 2, lower });
+  }
+
+  protected _reset() {
+    this.highs.clear();
+    this.lows.clear();
+  }
+}
+
+export class OpenInterestChange extends Indicator<BarData, number> {
+  private readonly window: RingWindow;
+
+  constructor(period = 1) {
+    super();
+    this.window = new RingWindow(period);
+  }
+
+  protected _compute(bar: BarData, commit: boolean) {
+    const isFull = this.window.isFull;
+    const change = bar.openInterest - this.window.oldest;
+
+    if (commit) {
+      this.window.push(bar.openInterest);
+    }
+
+    return isFull ? change : undefined;
+  }
+
+  protected _reset() {
+    this.window.clear();
+  }
+}
+
+export class IndicatorReceiver implements IBarReceiver {
+  private readonly indicators: IIndicator<BarData, unknown>[];
+
+  constructor(indicators: IIndicator<BarData, unknown>[] = []) {
+    this.indicators = indicators;
+  }
+
+  addIndicator(indicator: IIndicator<BarData, unknown>) {
+    if (!this.indicators.includes(indicator)) {
+      this.indicators.push(indicator);
+    }
+  }
+
+  removeIndicator(indicator: IIndicator<BarData, unknown>) {
+    const index = this.indicators.indexOf(indicator);
+
+    if (index >= 0) {
+      this.indicators.splice(index, 1);
+    }
+  }
+
+  onBar(bar: BarData) {
+    this.indicators.forEach((indicator) => indicator.update(bar));
+  }
+
+  onUpdateBar(bar: BarData) {
+    this.indicators.forEach((indicator) => indicator.peek(bar));
+  }
+}
+
+export const createPriceSource = (selector?: PriceSelector) =>
+  new PriceSource(selector);
+
+export const chainIndicators = <I, M, O>(
+  first: IIndicator<I, M>,
+  second: IIndicator<M, O>,
+) => new ChainedIndicator(first, second);
+
+export const createBarIndicator = <O>(
+  indicator: IIndicator<number, O>,
+  selector?: PriceSelector,
+) => chainIndicators(createPriceSource(selector), indicator);
+
+export const createSMA = (period: number) => new SMA(period);
+
+export const createEMA = (period: number, alpha?: number) =>
+  new EMA(period, alpha);
+
+export const createWMA = (period: number) => new WMA(period);
+
+export const createMACD = (fast?: number, slow?: number, signal?: number) =>
+  new MACD(fast, slow, signal);
+
+export const createRSI = (period?: number) => new RSI(period);
+
+export const createBollingerBands = (period?: number, multiplier?: number) =>
+  new BollingerBands(period, multiplier);
+
+export const createATR = (period?: number) => new ATR(period);
+
+export const createVWAP = (multiple?: number, calendar?: ITradingCalendar) =>
+  new VWAP(multiple, calendar);
+
+export const createDonchianChannel = (period?: number) =>
+  new DonchianChannel(period);
+
+export const createOpenInterestChange = (period?: number) =>
+  new OpenInterestChange(period);
+
+export const createIndicatorReceiver = (
+  indicators?: IIndicator<BarData, unknown>[],
+) => new IndicatorReceiver(indicators);
@@ -11,24 +11,58 @@
 
 import type {
   BarData,
+  BarSpec,
+  BookEvent,
+  BookPosition,
+  BracketOrderStatus,
+  BracketParams,
+  ClosePreference,
   CommissionRate,
   InstrumentData,
+  LinkType,
   MarginRate,
   OffsetType,
   OrderData,
   OrderFlag,
+  OrderFlowData,
+  OrderOptions,
   OrderStatistic,
+  OrderStatus,
   PositionData,
   PositionDetail,
+  PositionMismatch,
   ProductType,
+  ResyncChanges,
   SideType,
+  StopOrderData,
+  StopOrderParams,
+  StopOrderStatus,
   TapeData,
   TickData,
   TradeData,
   TradingAccount,
+  TradingSession,
 } from "./typedef.js";
 
-export type RiskType = "place-order-risk" | "cancel-order-risk";
+export type RiskType =
+  | "place-order-risk"
+  | "cancel-order-risk"
+  | "place-order-warning"
+  | "cancel-order-warning";
+
+export type RiskWarning = Readonly<{ warning: string }>;
+
+export type RiskResult = boolean | string | RiskWarning;
+
+export type PlaceOrderContext = Readonly<{
+  strategy: IStrategy;
+  instrument?: InstrumentData;
+  position?: PositionData;
+  bookPosition?: BookPosition;
+  account?: TradingAccount;
+  tick?: TickData;
+  orders: OrderData[];
+}>;
 
 export interface IPlaceOrderRiskManager {
   onPlaceOrder: (
@@ -38,11 +72,22 @@ export interface IPlaceOrderRiskManager {
     volume: number,
     price: number,
     flag: OrderFlag,
-  ) => boolean | string;
+    context: PlaceOrderContext,
+    options: OrderOptions,
+  ) => RiskResult;
+
+  onPlaceOrderAccepted?: (
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+  ) => void;
 }
 
 export interface ICancelOrderRiskManager {
-  onCancelOrder: (order: OrderData) => boolean | string;
+  onCancelOrder: (order: OrderData) => RiskResult;
 }
 
 export interface IRiskManagerReceiver {
@@ -59,7 +104,12 @@ export type ErrorType =
   | "query-accounts-error"
   | "query-positions-error"
   | "query-position-details-error"
-  | "query-depth-market-data-error";
+  | "query-depth-market-data-error"
+  | "replay-error"
+  | "record-error"
+  | "session-error";
+
+export type QueryErrorType = ErrorType | "query-timeout" | "provider-closed";
 
 export interface IErrorReceiver {
   onError: (error: ErrorType, message: string) => void;
@@ -68,6 +118,8 @@ export interface IErrorReceiver {
 export interface ILifecycleListener extends IErrorReceiver {
   onOpen: () => void;
   onClose: () => void;
+  onDisconnected?: () => void;
+  onReconnected?: (changes?: ResyncChanges) => void;
 }
 
 export interface IOrderReceiver {
@@ -77,6 +129,60 @@ export interface IOrderReceiver {
   onReject: (order: OrderData) => void;
 }
 
+export type IOrderListener = Partial<IOrderReceiver>;
+
+export type OrderHandleStatus = "pending" | "error" | OrderStatus;
+
+export interface IOrderHandle {
+  readonly receiptId: string | undefined;
+  readonly order: OrderData | undefined;
+  readonly status: OrderHandleStatus;
+  readonly reason: string | undefined;
+  readonly isDone: boolean;
+  readonly filled: Promise<OrderData>;
+  readonly done: Promise<OrderData>;
+
+  addListener: (listener: IOrderListener) => void;
+  removeListener: (listener: IOrderListener) => void;
+
+  cancel: (receiver?: ICancelOrderResultReceiver) => void;
+
+  replace: (
+    price: number,
+    volume?: number,
+    receiver?: IPlaceOrderResultReceiver,
+  ) => Promise<IOrderHandle>;
+}
+
+export interface IStopOrderHandle {
+  readonly id: string;
+  readonly data: StopOrderData;
+  readonly status: StopOrderStatus;
+  readonly reason: string | undefined;
+  readonly isDone: boolean;
+  readonly orderHandle: IOrderHandle | undefined;
+  readonly triggered: Promise<IOrderHandle>;
+
+  cancel: () => boolean;
+}
+
+export interface IBracketOrderHandle {
+  readonly entry: IOrderHandle;
+  readonly status: BracketOrderStatus;
+  readonly isDone: boolean;
+  readonly opened: number;
+  readonly closed: number;
+  readonly takeProfits: IOrderHandle[];
+  readonly stopLosses: IStopOrderHandle[];
+
+  cancel: () => boolean;
+}
+
+export interface IStopOrderReceiver {
+  onStopTriggered?: (stopOrder: StopOrderData, handle: IOrderHandle) => void;
+  onStopCanceled?: (stopOrder: StopOrderData) => void;
+}
+
 export interface IOrdersReceiver {
   onOrders: (orders: OrderData[]) => void;
 }
@@ -93,22 +199,89 @@ export interface ITickUnsubscriber {
   unsubscribe: (symbols: string[], receiver: ITickReceiver) => void;
 }
 
+export interface ITradingCalendar {
+  isTradingDay: (date: number) => boolean;
+  nextTradingDay: (date: number) => number;
+  prevTradingDay: (date: number) => number;
+  hasNightSession: (tradingDay: number) => boolean;
+  getTradingDay: (date: number, time: number) => number;
+  getSessions: (symbol: string, tradingDay?: number) => TradingSession[];
+
+  findSession: (
+    symbol: string,
+    time: number,
+    auction?: number,
+  ) => TradingSession | undefined;
+
+  isContinuous: (symbol: string, time: number) => boolean;
+  getSessionClose: (symbol: string, time: number) => number | undefined;
+}
+
 export interface IBarReceiver {
-  onBar: (bar: BarData) => void;
+  onBar: (bar: BarData, historical?: boolean) => void;
   onUpdateBar?: (bar: BarData, tick: TickData, tape: TapeData) => void;
 }
 
+export interface IBarStore {
+  saveBar: (spec: BarSpec, bar: BarData) => void;
+  loadBars: (
+    symbol: string,
+    spec: BarSpec,
+    count: number,
+  ) => Promise<BarData[]>;
+}
+
+export interface IOrderBookReceiver {
+  onBookEvents: (tick: TickData, events: BookEvent[]) => void;
+}
+
+export interface IOrderFlowReceiver {
+  onOrderFlow: (data: OrderFlowData, historical?: boolean) => void;
+}
+
+export interface IIndicator<I, O> {
+  readonly value?: O;
+  readonly current?: O;
+  readonly count: number;
+  readonly isReady: boolean;
+  update: (input: I) => O | undefined;
+  peek: (input: I) => O | undefined;
+  reset: () => void;
+}
+
+export interface IBarWarmup {
+  warmupBar: (
+    symbols: string[],
+    receiver: IBarReceiver,
+    count: number,
+    spec?: BarSpec,
+  ) => Promise<void>;
+}
+
 export interface IBarSubscriber {
-  subscribeBar: (symbols: string[], receiver: IBarReceiver) => void;
+  subscribeBar: (
+    symbols: string[],
+    receiver: IBarReceiver,
+    spec?: BarSpec,
+  ) => void;
 }
 
 export interface IBarUnsubscriber {
-  unsubscribeBar: (symbols: string[], receiver: IBarReceiver) => void;
+  unsubscribeBar: (
+    symbols: string[],
+    receiver: IBarReceiver,
+    spec?: BarSpec,
+  ) => void;
 }
 
-export interface IStrategy extends IRiskManagerReceiver, IOrderReceiver {
+export interface IStrategy
+  extends IRiskManagerReceiver,
+    IOrderReceiver,
+    IStopOrderReceiver {
   onInit: () => void;
   onDestroy: () => void;
+  onDisconnected?: (link: LinkType) => void;
+  onReconnected?: (link: LinkType, changes?: ResyncChanges) => void;
 }
 
 export interface ICommissionRateReceiver {
@@ -179,8 +352,26 @@ export interface IQueryProvider {
   queryOrders: (receiver: IOrdersReceiver) => void;
 }
 
+export interface IAsyncQueryProvider {
+  commissionRate: (symbol: string, timeout?: number) => Promise<CommissionRate>;
+  marginRate: (symbol: string, timeout?: number) => Promise<MarginRate>;
+  instrument: (symbol: string, timeout?: number) => Promise<InstrumentData>;
+  position: (symbol: string, timeout?: number) => Promise<PositionData>;
+
+  instruments: (
+    type?: ProductType,
+    timeout?: number,
+  ) => Promise<InstrumentData[]>;
+
+  tradingAccounts: (timeout?: number) => Promise<TradingAccount[]>;
+  positions: (timeout?: number) => Promise<PositionData[]>;
+  positionDetails: (timeout?: number) => Promise<PositionDetail[]>;
+  orders: (timeout?: number) => Promise<OrderData[]>;
+}
+
 export interface IMarketRecorderReceiver {
   onMarketData: (marketData: any) => void;
+  onRecorderStop?: () => void;
 }
 
 export type IMarketRecorderSymbols = (instrument: InstrumentData[]) => string[];
@@ -202,6 +393,7 @@ export interface IMarketProvider
     ITickSubscriber,
     ITickUnsubscriber {
   getRecorder: () => IMarketRecorderProvider | undefined;
+  getLastTick: (instrumentId: string) => TickData | undefined;
 }
 
 export type IPlaceOrderResultReceiver = {
@@ -226,20 +418,69 @@ export interface ITraderProvider
     price: number,
     flag: OrderFlag,
     receiver: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
   ) => void;
 
   cancelOrder: (order: OrderData, receiver: ICancelOrderResultReceiver) => void;
 }
 
+export interface IStopOrderEngine {
+  placeStopOrder: (
+    strategy: IStrategy,
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    params: StopOrderParams,
+  ) => IStopOrderHandle;
+
+  getStopOrders: (strategy: IStrategy) => StopOrderData[];
+}
+
+export interface IBracketOrderEngine {
+  placeBracketOrder: (
+    strategy: IStrategy,
+    symbol: string,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    params: BracketParams,
+    receiver?: IPlaceOrderResultReceiver,
+  ) => IBracketOrderHandle;
+}
+
+export interface IAutoCloseEngine {
+  closeAuto: (
+    strategy: IStrategy,
+    symbol: string,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    receiver?: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
+    preference?: ClosePreference,
+  ) => IOrderHandle[];
+}
+
 export interface IRuntimeEngine
   extends IQueryProvider,
+    IAsyncQueryProvider,
     ITickSubscriber,
     ITickUnsubscriber,
     IBarSubscriber,
-    IBarUnsubscriber {
+    IBarUnsubscriber,
+    IBarWarmup,
+    IStopOrderEngine,
+    IBracketOrderEngine,
+    IAutoCloseEngine {
   addStrategy: (strategy: IStrategy) => void;
   removeStrategy: (strategy: IStrategy) => void;
 
+  getLastTick: (symbol: string) => TickData | undefined;
+  getCalendar: () => ITradingCalendar;
+
   addPlaceOrderRiskManager: (riskMgr: IPlaceOrderRiskManager) => void;
   addCancelOrderRiskManager: (riskMgr: ICancelOrderRiskManager) => void;
 
@@ -251,12 +492,22 @@ export interface IRuntimeEngine
     volume: number,
     price: number,
     flag: OrderFlag,
-    receiver: IPlaceOrderResultReceiver,
-  ) => void;
+    receiver?: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
+  ) => IOrderHandle;
 
   cancelOrder: (
     strategy: IStrategy,
     order: OrderData,
     receiver: ICancelOrderResultReceiver,
   ) => void;
+
+  getBookPosition: (
+    strategy: IStrategy,
+    symbol: string,
+  ) => BookPosition | undefined;
+
+  getBookPositions: (strategy: IStrategy) => BookPosition[];
+
+  reconcilePositions: (timeout?: number) => Promise<PositionMismatch[]>;
 }
@@ -16,9 +16,10 @@ import type {
   SpecificInstrumentField,
 } from "@napi-ctp/types";
 import { CTPProvider } from "./provider.js";
-import type { InstrumentData, OrderBook, TickData } from "./typedef.js";
-import { isValidPrice, isValidVolume, parseSymbol } from "./utils.js";
+import type { InstrumentData, TickData } from "./typedef.js";
+import { parseSymbol } from "./utils.js";
 import { calcTapeData } from "./tape.js";
+import { DefaultDepth, toTickData } from "./depth.js";
 import type {
   ILifecycleListener,
   IMarketProvider,
@@ -35,6 +36,7 @@ export interface IMarketListener {
 
 export type MarketOptions = {
   listener?: IMarketListener;
+  depth?: number;
 };
 
 export class Market
@@ -46,6 +48,7 @@ export class Market
   private recorderSymbols?: IMarketRecorderSymbols;
   private tradingDay: number;
   private readonly listener?: IMarketListener;
+  private readonly depth: number;
   private readonly recordings: Set<string>;
   private readonly symbols: Map<string, string>;
   private readonly lastTicks: Map<string, TickData>;
@@ -62,6 +65,7 @@ export class Market
     this.symbols = new Map();
     this.lastTicks = new Map();
     this.subscribers = new Map();
+    this.depth = options?.depth ?? DefaultDepth;
 
     if (options?.listener) {
       this.listener = options.listener;
@@ -95,11 +99,17 @@ export class Market
 
     this.marketApi = ctp.createMarketData(this.flowPath, this.frontAddrs);
 
+    let fired = false;
+
     this.marketApi.on(ctp.MarketDataEvent.FrontConnected, () => {
       this._withRetry(() => this.marketApi!.reqUserLogin());
     });
 
-    let fired = false;
+    this.marketApi.on(ctp.MarketDataEvent.FrontDisconnected, () => {
+      if (fired) {
+        lifecycle.onDisconnected?.();
+      }
+    });
 
     this.marketApi.on<RspUserLoginField>(
       ctp.MarketDataEvent.RspUserLogin,
@@ -117,7 +127,7 @@ export class Market
 
         const instrumentIds = new Set([
           ...Array.from(this.recordings),
-          ...Object.keys(this.subscribers),
+          ...Array.from(this.subscribers.keys()),
         ]);
 
         if (instrumentIds.size > 0) {
@@ -129,6 +139,8 @@ export class Market
         if (!fired) {
           fired = true;
           lifecycle.onOpen();
+        } else {
+          lifecycle.onReconnected?.();
         }
       },
     );
@@ -174,118 +186,7 @@ export class Market
           return;
         }
 
-        const orderBook: OrderBook = {
-          asks: { price: [], volume: [] },
-          bids: { price: [], volume: [] },
-        };
-
-        if (
-          isValidPrice(depthMarketData.AskPrice1) &&
-          isValidVolume(depthMarketData.AskVolume1)
-        ) {
-          orderBook.asks.price.push(depthMarketData.AskPrice1);
-          orderBook.asks.volume.push(depthMarketData.AskVolume1);
-
-          if (
-            isValidPrice(depthMarketData.AskPrice2) &&
-            isValidVolume(depthMarketData.AskVolume2)
-          ) {
-            orderBook.asks.price.push(depthMarketData.AskPrice2);
-            orderBook.asks.volume.push(depthMarketData.AskVolume2);
-
-            if (
-              isValidPrice(depthMarketData.AskPrice3) &&
-              isValidVolume(depthMarketData.AskVolume3)
-            ) {
-              orderBook.asks.price.push(depthMarketData.AskPrice3);
-              orderBook.asks.volume.push(depthMarketData.AskVolume3);
-
-              if (
-                isValidPrice(depthMarketData.AskPrice4) &&
-                isValidVolume(depthMarketData.AskVolume4)
-              ) {
-                orderBook.asks.price.push(depthMarketData.AskPrice4);
-                orderBook.asks.volume.push(depthMarketData.AskVolume4);
-
-                if (
-                  isValidPrice(depthMarketData.AskPrice5) &&
-                  isValidVolume(depthMarketData.AskVolume5)
-                ) {
-                  orderBook.asks.price.push(depthMarketData.AskPrice5);
-                  orderBook.asks.volume.push(depthMarketData.AskVolume5);
-                }
-              }
-            }
-          }
-        }
-
-        if (
-          isValidPrice(depthMarketData.BidPrice1) &&
-          isValidVolume(depthMarketData.BidVolume1)
-        ) {
-          orderBook.bids.price.push(depthMarketData.BidPrice1);
-          orderBook.bids.volume.push(depthMarketData.BidVolume1);
-
-          if (
-            isValidPrice(depthMarketData.BidPrice2) &&
-            isValidVolume(depthMarketData.BidVolume2)
-          ) {
-            orderBook.bids.price.push(depthMarketData.BidPrice2);
-            orderBook.bids.volume.push(depthMarketData.BidVolume2);
-
-            if (
-              isValidPrice(depthMarketData.BidPrice3) &&
-              isValidVolume(depthMarketData.BidVolume3)
-            ) {
-              orderBook.bids.price.push(depthMarketData.BidPrice3);
-              orderBook.bids.volume.push(depthMarketData.BidVolume3);
-
-              if (
-                isValidPrice(depthMarketData.BidPrice4) &&
-                isValidVolume(depthMarketData.BidVolume4)
-              ) {
-                orderBook.bids.price.push(depthMarketData.BidPrice4);
-                orderBook.bids.volume.push(depthMarketData.BidVolume4);
-
-                if (
-                  isValidPrice(depthMarketData.BidPrice5) &&
-                  isValidVolume(depthMarketData.BidVolume5)
-                ) {
-                  orderBook.bids.price.push(depthMarketData.BidPrice5);
-                  orderBook.bids.volume.push(depthMarketData.BidVolume5);
-                }
-              }
-            }
-          }
-        }
-
-        const time = this._parseTime(depthMarketData.UpdateTime);
-
-        const tick: TickData = Object.freeze({
-          symbol: symbol,
-          date: parseInt(depthMarketData.ActionDay),
-          time: time + depthMarketData.UpdateMillisec / 1000,
-          tradingDay: parseInt(depthMarketData.TradingDay),
-          preOpenInterest: depthMarketData.PreOpenInterest,
-          preClose: depthMarketData.PreClosePrice,
-          openInterest: depthMarketData.OpenInterest,
-          openPrice: depthMarketData.OpenPrice,
-          highPrice: depthMarketData.HighestPrice,
-          lowPrice: depthMarketData.LowestPrice,
-          lastPrice: depthMarketData.LastPrice,
-          volume: depthMarketData.Volume,
-          amount: depthMarketData.Turnover,
-          limits: Object.freeze({
-            upper: depthMarketData.UpperLimitPrice,
-            lower: depthMarketData.LowerLimitPrice,
-          }),
-          bandings: Object.freeze({
-            upper: depthMarketData.BandingUpperPrice,
-            lower: depthMarketData.BandingLowerPrice,
-          }),
-          orderBook: Object.freeze(orderBook),
-        });
-
+        const tick = toTickData(symbol, depthMarketData, this.depth);
         const lastTick = this.lastTicks.get(instrumentId);
         const receivers = this.subscribers.get(instrumentId);
 
@@ -343,6 +244,10 @@ export class Market
   }
 
   stopRecorder() {
+    if (this.recorder?.onRecorderStop) {
+      this.recorder.onRecorderStop();
+    }
+
     if (this.recordings.size === 0) {
       return;
     }
@@ -0,0 +1,181 @@
+/*
+ * order.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OrderError } from "./errors.js";
+import { createOrderHandle, createStopOrderHandle } from "./order.js";
+import type { StopOrderFirer } from "./order.js";
+import type { IOrderHandle } from "./interfaces.js";
+import { TestSymbol, createOrder, createTick } from "./testing.js";
+import type { OrderData, OrderFlag, StopOrderParams } from "./typedef.js";
+
+const trade = { id: "1", date: 20250102, time: 93001, price: 3000, volume: 2 };
+
+const unusedPlacer = (): IOrderHandle => assert.fail("Unexpected Placement");
+
+const createStopOrder = (
+  params: StopOrderParams,
+  side: "long" | "short" = "short",
+) => {
+  const fired: [number, OrderFlag][] = [];
+  const firer: StopOrderFirer = (price, flag) => {
+    fired.push([price, flag]);
+    return createOrderHandle(unusedPlacer, () => {});
+  };
+
+  const handle = createStopOrderHandle(
+    {
+      id: "stop:1",
+      symbol: TestSymbol,
+      offset: "close",
+      side: side,
+      volume: 1,
+      priceTick: 1,
+    },
+    params,
+    firer,
+    () => {},
+  );
+
+  return { handle, fired };
+};
+
+describe("OrderHandle", () => {
+  it("forwards a cancel requested before the entrust", () => {
+    const canceled: OrderData[] = [];
+    const handle = createOrderHandle(unusedPlacer, (order) =>
+      canceled.push(order),
+    );
+
+    handle.onPlaceOrderSent("0:0:1");
+    handle.cancel();
+
+    assert.equal(canceled.length, 0);
+
+    handle.onEntrust(createOrder());
+
+    assert.equal(canceled.length, 1);
+    assert.equal(canceled[0]?.id, "SHFE:1");
+  });
+
+  it("resolves done and filled on a full fill", async () => {
+    const handle = createOrderHandle(unusedPlacer, () => {});
+
+    handle.onPlaceOrderSent("0:0:1");
+    handle.onEntrust(createOrder());
+    handle.onTrade(createOrder({ status: "filled", traded: 2 }), trade);
+
+    assert.equal((await handle.filled).traded, 2);
+    assert.equal((await handle.done).status, "filled");
+  });
+
+  it("rejects done when the order could not be placed", async () => {
+    const handle = createOrderHandle(unusedPlacer, () => {});
+
+    handle.onPlaceOrderError("Risk Rejected");
+
+    assert.equal(handle.status, "error");
+    await assert.rejects(handle.done, new OrderError("Risk Rejected"));
+  });
+
+  it("fails a cancel once the order is finished", () => {
+    const handle = createOrderHandle(unusedPlacer, () => {});
+    const reasons: string[] = [];
+
+    handle.onEntrust(createOrder());
+    handle.onCancel(createOrder({ status: "canceled" }));
+    handle.cancel({
+      onCancelOrderSent: () => {},
+      onCancelOrderError: (reason) => reasons.push(reason),
+    });
+
+    assert.deepEqual(reasons, ["Order Finished"]);
+  });
+});
+
+describe("StopOrderHandle", () => {
+  it("fires a market order once the stop price is crossed", async () => {
+    const { handle, fired } = createStopOrder({
+      type: "stop",
+      stopPrice: 2990,
+    });
+
+    handle.onTick(createTick(2991));
+
+    assert.equal(handle.status, "waiting");
+
+    handle.onTick(createTick(2990, { time: 93001 }));
+    handle.onTick(createTick(2980, { time: 93002 }));
+
+    assert.deepEqual(fired, [[0, "market"]]);
+    assert.equal(handle.data.triggerTime, 93001);
+    assert.equal(await handle.triggered, handle.orderHandle);
+  });
+
+  it("fires a limit order for stop-limit", () => {
+    const { handle, fired } = createStopOrder(
+      { type: "stop-limit", stopPrice: 3010, limitPrice: 3012, source: "ask" },
+      "long",
+    );
+
+    handle.onTick(createTick(3008));
+    handle.onTick(createTick(3009));
+
+    assert.deepEqual(fired, [[3012, "limit"]]);
+  });
+
+  it("trails the most favourable price", () => {
+    const { handle, fired } = createStopOrder({
+      type: "trailing-stop",
+      trailingTicks: 5,
+    });
+
+    handle.onTick(createTick(3000));
+    handle.onTick(createTick(3010));
+    handle.onTick(createTick(3007));
+
+    assert.equal(handle.data.stopPrice, 3005);
+    assert.deepEqual(fired, []);
+
+    handle.onTick(createTick(3005));
+
+    assert.deepEqual(fired, [[0, "market"]]);
+  });
+
+  it("rejects invalid parameters", async () => {
+    const { handle } = createStopOrder({ type: "stop-limit", stopPrice: 3010 });
+
+    assert.equal(handle.status, "error");
+    assert.equal(handle.cancel(), false);
+    await assert.rejects(
+      handle.triggered,
+      new OrderError("Invalid Limit Price"),
+    );
+  });
+
+  it("settles as canceled before triggering", async () => {
+    const { handle, fired } = createStopOrder({
+      type: "stop",
+      stopPrice: 2990,
+    });
+
+    assert.equal(handle.cancel(), true);
+
+    handle.onTick(createTick(2980));
+
+    assert.deepEqual(fired, []);
+    await assert.rejects(
+      handle.triggered,
+      new OrderError("Stop Order canceled"),
+    );
+  });
+});
@@ -0,0 +1,540 @@
+/*
+ * order.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  OffsetType,
+  OrderData,
+  OrderFlag,
+  OrderOptions,
+  SideType,
+  StopOrderData,
+  StopOrderParams,
+  StopOrderStatus,
+  TickData,
+  TradeData,
+} from "./typedef.js";
+import { OrderError } from "./errors.js";
+import { isValidPrice } from "./utils.js";
+import type {
+  ICancelOrderResultReceiver,
+  IOrderHandle,
+  IOrderListener,
+  IOrderReceiver,
+  IPlaceOrderResultReceiver,
+  IStopOrderHandle,
+  ITickReceiver,
+  OrderHandleStatus,
+} from "./interfaces.js";
+
+export type OrderPlacer = (
+  price: number,
+  volume: number,
+  receiver?: IPlaceOrderResultReceiver,
+) => IOrderHandle;
+
+export type OrderCanceler = (
+  order: OrderData,
+  receiver: ICancelOrderResultReceiver,
+) => void;
+
+export type StopOrderFirer = (
+  price: number,
+  flag: OrderFlag,
+  options?: OrderOptions,
+) => IOrderHandle;
+
+export type StopOrderCanceler = () => void;
+
+export type StopOrderRequest = {
+  id: string;
+  symbol: string;
+  offset: OffsetType;
+  side: SideType;
+  volume: number;
+  priceTick: number;
+};
+
+type Settlement<T> = {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: OrderError) => void;
+};
+
+const createSettlement = <T>() => {
+  const settlement = {} as Settlement<T>;
+
+  settlement.promise = new Promise<T>((resolve, reject) => {
+    settlement.resolve = resolve;
+    settlement.reject = reject;
+  });
+
+  return settlement;
+};
+
+export class OrderHandle
+  implements IOrderHandle, IOrderReceiver, IPlaceOrderResultReceiver
+{
+  private _receiptId?: string;
+  private _order?: OrderData;
+  private _status: OrderHandleStatus;
+  private _reason?: string;
+  private _filled?: Settlement<OrderData>;
+  private _done?: Settlement<OrderData>;
+  private pendingCancels: ICancelOrderResultReceiver[];
+  private readonly placer: OrderPlacer;
+  private readonly canceler: OrderCanceler;
+  private readonly receiver?: IPlaceOrderResultReceiver;
+  private readonly listeners: IOrderListener[];
+
+  constructor(
+    placer: OrderPlacer,
+    canceler: OrderCanceler,
+    receiver?: IPlaceOrderResultReceiver,
+  ) {
+    this._status = "pending";
+    this.pendingCancels = [];
+    this.placer = placer;
+    this.canceler = canceler;
+    this.listeners = [];
+
+    if (receiver) {
+      this.receiver = receiver;
+    }
+  }
+
+  get receiptId() {
+    return this._receiptId;
+  }
+
+  get order() {
+    return this._order;
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get reason() {
+    return this._reason;
+  }
+
+  get isDone() {
+    switch (this._status) {
+      case "filled":
+      case "canceled":
+      case "rejected":
+      case "error":
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  get filled() {
+    if (!this._filled) {
+      this._filled = createSettlement();
+      this._settle();
+    }
+
+    return this._filled.promise;
+  }
+
+  get done() {
+    if (!this._done) {
+      this._done = createSettlement();
+      this._settle();
+    }
+
+    return this._done.promise;
+  }
+
+  addListener(listener: IOrderListener) {
+    if (!this.listeners.includes(listener)) {
+      this.listeners.push(listener);
+    }
+  }
+
+  removeListener(listener: IOrderListener) {
+    const index = this.listeners.indexOf(listener);
+
+    if (index >= 0) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  cancel(receiver?: ICancelOrderResultReceiver) {
+    const cancelReceiver: ICancelOrderResultReceiver = receiver ?? {
+      onCancelOrderSent: () => {},
+      onCancelOrderError: () => {},
+    };
+
+    if (this.isDone) {
+      cancelReceiver.onCancelOrderError("Order Finished");
+      return;
+    }
+
+    if (!this._order) {
+      this.pendingCancels.push(cancelReceiver);
+      return;
+    }
+
+    this.canceler(this._order, cancelReceiver);
+  }
+
+  async replace(
+    price: number,
+    volume?: number,
+    receiver?: IPlaceOrderResultReceiver,
+  ) {
+    const order = await new Promise<OrderData>((resolve, reject) => {
+      this.cancel({
+        onCancelOrderSent: () => {},
+        onCancelOrderError: (reason) => {
+          if (!this.isDone) {
+            reject(new OrderError(reason, this._order));
+          }
+        },
+      });
+
+      this.done.then(resolve, reject);
+    });
+
+    if (order.status !== "canceled") {
+      throw new OrderError("Order Not Canceled", order);
+    }
+
+    return this.placer(price, volume ?? order.volume - order.traded, receiver);
+  }
+
+  onPlaceOrderSent(receiptId: string) {
+    this._receiptId = receiptId;
+
+    if (this.receiver) {
+      this.receiver.onPlaceOrderSent(receiptId);
+    }
+  }
+
+  onPlaceOrderError(reason: string) {
+    this._status = "error";
+    this._reason = reason;
+
+    if (this.receiver) {
+      this.receiver.onPlaceOrderError(reason);
+    }
+
+    this._settle();
+  }
+
+  onEntrust(order: OrderData) {
+    this._update(order);
+    this.listeners.forEach((listener) => listener.onEntrust?.(order));
+
+    const pendingCancels = this.pendingCancels;
+    this.pendingCancels = [];
+
+    pendingCancels.forEach((receiver) => this.cancel(receiver));
+  }
+
+  onTrade(order: OrderData, trade: TradeData) {
+    this._update(order);
+    this.listeners.forEach((listener) => listener.onTrade?.(order, trade));
+    this._settle();
+  }
+
+  onCancel(order: OrderData) {
+    this._update(order);
+    this.listeners.forEach((listener) => listener.onCancel?.(order));
+    this._settle();
+  }
+
+  onReject(order: OrderData) {
+    this._update(order);
+    this.listeners.forEach((listener) => listener.onReject?.(order));
+    this._settle();
+  }
+
+  private _update(order: OrderData) {
+    this._order = order;
+    this._status = order.status;
+  }
+
+  private _settle() {
+    if (!this.isDone) {
+      return;
+    }
+
+    const pendingCancels = this.pendingCancels;
+    this.pendingCancels = [];
+
+    pendingCancels.forEach((receiver) =>
+      receiver.onCancelOrderError("Order Finished"),
+    );
+
+    const order = this._order;
+
+    if (this._status === "error" || !order) {
+      const error = new OrderError(this._reason ?? "Place Order Error");
+
+      this._filled?.reject(error);
+      this._done?.reject(error);
+      return;
+    }
+
+    if (this._status === "filled") {
+      this._filled?.resolve(order);
+    } else {
+      this._filled?.reject(new OrderError(`Order ${this._status}`, order));
+    }
+
+    this._done?.resolve(order);
+  }
+}
+
+export class StopOrderHandle implements IStopOrderHandle, ITickReceiver {
+  private _status: StopOrderStatus;
+  private _reason?: string;
+  private _stopPrice?: number;
+  private _extremePrice?: number;
+  private _triggerTime?: number;
+  private _triggerPrice?: number;
+  private _orderHandle?: IOrderHandle;
+  private _triggered?: Settlement<IOrderHandle>;
+  private readonly request: StopOrderRequest;
+  private readonly params: StopOrderParams;
+  private readonly trailing?: number;
+  private readonly firer: StopOrderFirer;
+  private readonly canceler: StopOrderCanceler;
+
+  constructor(
+    request: StopOrderRequest,
+    params: StopOrderParams,
+    firer: StopOrderFirer,
+    canceler: StopOrderCanceler,
+  ) {
+    this._status = "waiting";
+    this.request = request;
+    this.params = params;
+    this.firer = firer;
+    this.canceler = canceler;
+
+    if (params.stopPrice !== undefined) {
+      this._stopPrice = params.stopPrice;
+    }
+
+    if (params.type === "trailing-stop") {
+      this.trailing =
+        params.trailingPrice ?? (params.trailingTicks ?? 0) * request.priceTick;
+    }
+
+    const reason = this._validate();
+
+    if (reason) {
+      this._status = "error";
+      this._reason = reason;
+    }
+  }
+
+  get id() {
+    return this.request.id;
+  }
+
+  get data(): StopOrderData {
+    return Object.freeze({
+      id: this.request.id,
+      symbol: this.request.symbol,
+      type: this.params.type,
+      source: this.params.source ?? "last",
+      side: this.request.side,
+      offset: this.request.offset,
+      volume: this.request.volume,
+      stopPrice: this._stopPrice,
+      limitPrice: this.params.limitPrice,
+      trailing: this.trailing,
+      status: this._status,
+      triggerTime: this._triggerTime,
+      triggerPrice: this._triggerPrice,
+    });
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get reason() {
+    return this._reason;
+  }
+
+  get isDone() {
+    return this._status !== "waiting";
+  }
+
+  get orderHandle() {
+    return this._orderHandle;
+  }
+
+  get triggered() {
+    if (!this._triggered) {
+      this._triggered = createSettlement();
+      this._settle();
+    }
+
+    return this._triggered.promise;
+  }
+
+  cancel() {
+    if (this.isDone) {
+      return false;
+    }
+
+    this._status = "canceled";
+    this.canceler();
+    this._settle();
+
+    return true;
+  }
+
+  onTick(tick: TickData) {
+    if (this.isDone || tick.symbol !== this.request.symbol) {
+      return;
+    }
+
+    const price = this._getSourcePrice(tick);
+
+    if (price === undefined) {
+      return;
+    }
+
+    if (this.trailing !== undefined) {
+      this._updateTrailing(price, this.trailing);
+    }
+
+    const stopPrice = this._stopPrice;
+
+    if (stopPrice === undefined) {
+      return;
+    }
+
+    const isTriggered =
+      this.request.side === "long" ? price >= stopPrice : price <= stopPrice;
+
+    if (!isTriggered) {
+      return;
+    }
+
+    this._status = "triggered";
+    this._triggerTime = tick.time;
+    this._triggerPrice = price;
+
+    this._orderHandle =
+      this.params.type === "stop-limit"
+        ? this.firer(this.params.limitPrice!, "limit", this.params.options)
+        : this.firer(0, "market", this.params.options);
+
+    this._settle();
+  }
+
+  private _validate() {
+    if (this.request.volume <= 0) {
+      return "Invalid Volume";
+    }
+
+    switch (this.params.type) {
+      case "stop":
+        return (this._stopPrice ?? 0) > 0 ? undefined : "Invalid Stop Price";
+
+      case "stop-limit":
+        if ((this._stopPrice ?? 0) <= 0) {
+          return "Invalid Stop Price";
+        }
+
+        return (this.params.limitPrice ?? 0) > 0
+          ? undefined
+          : "Invalid Limit Price";
+
+      case "trailing-stop":
+        return (this.trailing ?? 0) > 0 ? undefined : "Invalid Trailing";
+    }
+  }
+
+  private _getSourcePrice(tick: TickData) {
+    let price: number | undefined;
+
+    switch (this.params.source ?? "last") {
+      case "last":
+        price = tick.lastPrice;
+        break;
+
+      case "bid":
+        price = tick.orderBook.bids.price[0];
+        break;
+
+      case "ask":
+        price = tick.orderBook.asks.price[0];
+        break;
+    }
+
+    return price !== undefined && isValidPrice(price) ? price : undefined;
+  }
+
+  private _updateTrailing(price: number, trailing: number) {
+    const isLong = this.request.side === "long";
+
+    this._extremePrice =
+      this._extremePrice === undefined
+        ? price
+        : isLong
+          ? Math.min(this._extremePrice, price)
+          : Math.max(this._extremePrice, price);
+
+    const stopPrice = parseFloat(
+      (isLong
+        ? this._extremePrice + trailing
+        : this._extremePrice - trailing
+      ).toFixed(8),
+    );
+
+    if (this._stopPrice === undefined) {
+      this._stopPrice = stopPrice;
+    } else {
+      this._stopPrice = isLong
+        ? Math.min(this._stopPrice, stopPrice)
+        : Math.max(this._stopPrice, stopPrice);
+    }
+  }
+
+  private _settle() {
+    if (!this._triggered || !this.isDone) {
+      return;
+    }
+
+    if (this._orderHandle) {
+      this._triggered.resolve(this._orderHandle);
+    } else {
+      this._triggered.reject(
+        new OrderError(this._reason ?? `Stop Order ${this._status}`),
+      );
+    }
+  }
+}
+
+export const createOrderHandle = (
+  placer: OrderPlacer,
+  canceler: OrderCanceler,
+  receiver?: IPlaceOrderResultReceiver,
+) => new OrderHandle(placer, canceler, receiver);
+
+export const createStopOrderHandle = (
+  request: StopOrderRequest,
+  params: StopOrderParams,
+  firer: StopOrderFirer,
+  canceler: StopOrderCanceler,
+) => new StopOrderHandle(request, params, firer, canceler);
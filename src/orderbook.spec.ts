@@ -0,0 +1,72 @@
+/*
+ * orderbook.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffOrderBook } from "./orderbook.js";
+import type { OrderBook } from "./typedef.js";
+
+const createBook = (asks: number[][], bids: number[][]): OrderBook => ({
+  asks: {
+    price: asks.map(([price]) => price!),
+    volume: asks.map(([, volume]) => volume!),
+  },
+  bids: {
+    price: bids.map(([price]) => price!),
+    volume: bids.map(([, volume]) => volume!),
+  },
+});
+
+describe("diffOrderBook", () => {
+  it("reports every level of the first book as added", () => {
+    assert.deepEqual(diffOrderBook(undefined, createBook([[101, 5]], [])), [
+      { type: "add", side: "ask", price: 101, volume: 5, delta: 5 },
+    ]);
+  });
+
+  it("reports changed and removed levels", () => {
+    const prevBook = createBook(
+      [[101, 5]],
+      [
+        [100, 3],
+        [99, 4],
+      ],
+    );
+    const currBook = createBook([[101, 2]], [[100, 6]]);
+
+    assert.deepEqual(diffOrderBook(prevBook, currBook, 2), [
+      { type: "change", side: "ask", price: 101, volume: 2, delta: -3 },
+      { type: "change", side: "bid", price: 100, volume: 6, delta: 3 },
+      { type: "remove", side: "bid", price: 99, volume: 0, delta: -4 },
+    ]);
+  });
+
+  it("keeps levels pushed beyond the visible depth", () => {
+    const prevBook = createBook(
+      [
+        [101, 5],
+        [102, 7],
+      ],
+      [],
+    );
+    const currBook = createBook(
+      [
+        [100, 1],
+        [101, 5],
+      ],
+      [],
+    );
+
+    assert.deepEqual(diffOrderBook(prevBook, currBook, 2), [
+      { type: "add", side: "ask", price: 100, volume: 1, delta: 1 },
+    ]);
+  });
+});
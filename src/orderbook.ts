@@ -0,0 +1,246 @@
+/*
+ * orderbook.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  BookEvent,
+  BookSide,
+  OrderBook,
+  PriceQueue,
+  TapeSide,
+  TickData,
+  Writeable,
+} from "./typedef.js";
+import type { IOrderBookReceiver, ITickReceiver } from "./interfaces.js";
+import { DefaultDepth } from "./depth.js";
+
+export type OrderBookModelOptions = {
+  depth?: number;
+};
+
+type SymbolBook = {
+  tradingDay: number;
+  orderBook: OrderBook;
+  asks: Map<number, Writeable<PriceQueue>>;
+  bids: Map<number, Writeable<PriceQueue>>;
+};
+
+const isHidden = (
+  side: BookSide,
+  price: number,
+  tapeSide: TapeSide,
+  depth: number,
+) => {
+  if (tapeSide.price.length < depth) {
+    return false;
+  }
+
+  const worstPrice = tapeSide.price[tapeSide.price.length - 1]!;
+  return side === "ask" ? price > worstPrice : price < worstPrice;
+};
+
+const diffTapeSide = (
+  side: BookSide,
+  prevSide: TapeSide | undefined,
+  currSide: TapeSide,
+  depth: number,
+) => {
+  const events: BookEvent[] = [];
+  const prevVolumes = new Map<number, number>();
+  const currPrices = new Set(currSide.price);
+
+  prevSide?.price.forEach((price, index) =>
+    prevVolumes.set(price, prevSide.volume[index]!),
+  );
+
+  currSide.price.forEach((price, index) => {
+    const volume = currSide.volume[index]!;
+    const prevVolume = prevVolumes.get(price);
+
+    if (prevVolume === undefined) {
+      events.push(
+        Object.freeze({ type: "add", side, price, volume, delta: volume }),
+      );
+    } else if (prevVolume !== volume) {
+      events.push(
+        Object.freeze({
+          type: "change",
+          side,
+          price,
+          volume,
+          delta: volume - prevVolume,
+        }),
+      );
+    }
+  });
+
+  prevVolumes.forEach((prevVolume, price) => {
+    if (currPrices.has(price) || isHidden(side, price, currSide, depth)) {
+      return;
+    }
+
+    events.push(
+      Object.freeze({
+        type: "remove",
+        side,
+        price,
+        volume: 0,
+        delta: -prevVolume,
+      }),
+    );
+  });
+
+  return events;
+};
+
+export const diffOrderBook = (
+  prevBook: OrderBook | undefined,
+  currBook: OrderBook,
+  depth: number = DefaultDepth,
+) => [
+  ...diffTapeSide("ask", prevBook?.asks, currBook.asks, depth),
+  ...diffTapeSide("bid", prevBook?.bids, currBook.bids, depth),
+];
+
+export class OrderBookModel implements ITickReceiver {
+  private readonly depth: number;
+  private readonly books: Map<string, SymbolBook>;
+  private readonly receivers: IOrderBookReceiver[];
+
+  constructor(options?: OrderBookModelOptions) {
+    this.depth = options?.depth ?? DefaultDepth;
+    this.books = new Map();
+    this.receivers = [];
+  }
+
+  addReceiver(receiver: IOrderBookReceiver) {
+    if (!this.receivers.includes(receiver)) {
+      this.receivers.push(receiver);
+    }
+  }
+
+  removeReceiver(receiver: IOrderBookReceiver) {
+    const index = this.receivers.indexOf(receiver);
+
+    if (index >= 0) {
+      this.receivers.splice(index, 1);
+    }
+  }
+
+  getOrderBook(symbol: string) {
+    return this.books.get(symbol)?.orderBook;
+  }
+
+  getQueue(symbol: string, side: BookSide, price: number) {
+    const book = this.books.get(symbol);
+    const queue = book?.[side === "ask" ? "asks" : "bids"].get(price);
+
+    return queue ? Object.freeze({ ...queue }) : undefined;
+  }
+
+  getQueues(symbol: string, side: BookSide) {
+    const book = this.books.get(symbol);
+
+    if (!book) {
+      return [];
+    }
+
+    return Array.from(
+      book[side === "ask" ? "asks" : "bids"].values(),
+      (queue) => Object.freeze({ ...queue }),
+    );
+  }
+
+  reset(symbol?: string) {
+    if (symbol === undefined) {
+      this.books.clear();
+    } else {
+      this.books.delete(symbol);
+    }
+  }
+
+  onTick(tick: TickData) {
+    let book = this.books.get(tick.symbol);
+
+    if (book && book.tradingDay !== tick.tradingDay) {
+      book = undefined;
+    }
+
+    const events = diffOrderBook(book?.orderBook, tick.orderBook, this.depth);
+
+    if (!book) {
+      book = {
+        tradingDay: tick.tradingDay,
+        orderBook: tick.orderBook,
+        asks: new Map(),
+        bids: new Map(),
+      };
+
+      this.books.set(tick.symbol, book);
+    }
+
+    book.orderBook = tick.orderBook;
+
+    events.forEach((event) => this._applyEvent(book, event));
+
+    this._pruneQueues(book.asks, tick.orderBook.asks);
+    this._pruneQueues(book.bids, tick.orderBook.bids);
+
+    if (events.length > 0) {
+      this.receivers.forEach((receiver) => receiver.onBookEvents(tick, events));
+    }
+  }
+
+  private _applyEvent(book: SymbolBook, event: BookEvent) {
+    const queues = event.side === "ask" ? book.asks : book.bids;
+    const queue = queues.get(event.price);
+
+    if (event.type === "remove") {
+      queues.delete(event.price);
+      return;
+    }
+
+    if (!queue) {
+      queues.set(event.price, {
+        side: event.side,
+        price: event.price,
+        volume: event.volume,
+        added: Math.max(event.delta, 0),
+        removed: Math.max(-event.delta, 0),
+        updates: 1,
+      });
+
+      return;
+    }
+
+    queue.volume = event.volume;
+    queue.updates += 1;
+
+    if (event.delta > 0) {
+      queue.added += event.delta;
+    } else {
+      queue.removed -= event.delta;
+    }
+  }
+
+  private _pruneQueues(
+    queues: Map<number, Writeable<PriceQueue>>,
+    tapeSide: TapeSide,
+  ) {
+    queues.forEach((_, price) => {
+      if (!tapeSide.price.includes(price)) {
+        queues.delete(price);
+      }
+    });
+  }
+}
+
+export const createOrderBookModel = (options?: OrderBookModelOptions) =>
+  new OrderBookModel(options);
@@ -0,0 +1,81 @@
+/*
+ * orderflow.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calcImbalances,
+  calcStackedImbalances,
+  calcValueArea,
+} from "./orderflow.js";
+import { TestSymbol } from "./testing.js";
+import type { BarData, PriceVolume } from "./typedef.js";
+
+const createBar = (
+  buyVolumes: PriceVolume,
+  sellVolumes: PriceVolume,
+): BarData => ({
+  symbol: TestSymbol,
+  date: 20250102,
+  time: 93000,
+  openInterest: 0,
+  openPrice: 100,
+  highPrice: 103,
+  lowPrice: 100,
+  closePrice: 103,
+  volume: 0,
+  amount: 0,
+  delta: 0,
+  poc: 100,
+  buyVolumes: buyVolumes,
+  sellVolumes: sellVolumes,
+});
+
+describe("calcValueArea", () => {
+  it("expands from the point of control towards larger volume", () => {
+    const valueArea = calcValueArea(
+      { 1: 5, 2: 10, 3: 20, 4: 10, 5: 25 },
+      { 3: 20, 4: 10 },
+    );
+
+    assert.deepEqual(valueArea, { poc: 3, high: 5, low: 3, volume: 85 });
+  });
+
+  it("returns an empty area without volume", () => {
+    assert.deepEqual(calcValueArea({}, {}), {
+      poc: 0,
+      high: 0,
+      low: 0,
+      volume: 0,
+    });
+  });
+});
+
+describe("calcImbalances", () => {
+  const bar = createBar({ 101: 9, 102: 9, 103: 9 }, { 100: 3, 101: 2, 102: 1 });
+
+  it("compares buys against sells one tick lower", () => {
+    assert.deepEqual(calcImbalances(bar), [
+      { side: "buy", price: 101, volume: 9, opposite: 3 },
+      { side: "buy", price: 102, volume: 9, opposite: 2 },
+      { side: "buy", price: 103, volume: 9, opposite: 1 },
+    ]);
+  });
+
+  it("stacks consecutive imbalances", () => {
+    const imbalances = calcImbalances(bar);
+
+    assert.deepEqual(calcStackedImbalances(imbalances), [
+      { side: "buy", low: 101, high: 103, levels: 3 },
+    ]);
+    assert.deepEqual(calcStackedImbalances(imbalances, 1, 4), []);
+  });
+});
@@ -0,0 +1,420 @@
+/*
+ * orderflow.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  BarData,
+  Imbalance,
+  OrderFlowData,
+  OrderFlowSignal,
+  PriceVolume,
+  StackedImbalance,
+  TapeData,
+  TapeStatus,
+  TickData,
+  ValueArea,
+  VolumeProfile,
+} from "./typedef.js";
+import type {
+  IBarReceiver,
+  IOrderFlowReceiver,
+  ITradingCalendar,
+} from "./interfaces.js";
+import { createTradingCalendar } from "./calendar.js";
+
+export type OrderFlowOptions = {
+  priceTick?: number;
+  imbalanceRatio?: number;
+  imbalanceMinVolume?: number;
+  stackedLevels?: number;
+  valueAreaRatio?: number;
+  absorptionRatio?: number;
+  exhaustionRatio?: number;
+  calendar?: ITradingCalendar;
+};
+
+type SymbolFlow = {
+  tradingDay: number;
+  cumulativeDelta: number;
+  profileVolume: number;
+  buyVolumes: Record<number, number>;
+  sellVolumes: Record<number, number>;
+  tapeVolumes: Partial<Record<TapeStatus, number>>;
+};
+
+const getPrices = (buyVolumes: PriceVolume, sellVolumes: PriceVolume) =>
+  Array.from(
+    new Set([...Object.keys(buyVolumes), ...Object.keys(sellVolumes)]),
+    (price) => parseFloat(price),
+  ).sort((a, b) => a - b);
+
+const getVolume = (
+  buyVolumes: PriceVolume,
+  sellVolumes: PriceVolume,
+  price: number,
+) => (buyVolumes[price] ?? 0) + (sellVolumes[price] ?? 0);
+
+const addVolumes = (target: Record<number, number>, source: PriceVolume) => {
+  for (const price in source) {
+    target[price] = source[price]! + (target[price] ?? 0);
+  }
+};
+
+const roundPrice = (price: number, priceTick: number) =>
+  parseFloat((Math.round(price / priceTick) * priceTick).toFixed(8));
+
+export const calcValueArea = (
+  buyVolumes: PriceVolume,
+  sellVolumes: PriceVolume,
+  ratio: number = 0.7,
+): ValueArea => {
+  const prices = getPrices(buyVolumes, sellVolumes);
+  const volumes = prices.map((price) =>
+    getVolume(buyVolumes, sellVolumes, price),
+  );
+
+  if (prices.length === 0) {
+    return Object.freeze({ poc: 0, high: 0, low: 0, volume: 0 });
+  }
+
+  let pocIndex = 0;
+
+  volumes.forEach((volume, index) => {
+    if (volume > volumes[pocIndex]!) {
+      pocIndex = index;
+    }
+  });
+
+  const total = volumes.reduce((sum, volume) => sum + volume, 0);
+  const target = total * ratio;
+
+  let low = pocIndex;
+  let high = pocIndex;
+  let volume = volumes[pocIndex]!;
+
+  while (volume < target && (low > 0 || high < prices.length - 1)) {
+    const above = high < prices.length - 1 ? volumes[high + 1]! : -1;
+    const below = low > 0 ? volumes[low - 1]! : -1;
+
+    if (above >= below) {
+      high += 1;
+      volume += above;
+    } else {
+      low -= 1;
+      volume += below;
+    }
+  }
+
+  return Object.freeze({
+    poc: prices[pocIndex]!,
+    high: prices[high]!,
+    low: prices[low]!,
+    volume,
+  });
+};
+
+export const calcImbalances = (
+  bar: BarData,
+  priceTick: number = 1,
+  ratio: number = 3,
+  minVolume: number = 1,
+) => {
+  const imbalances: Imbalance[] = [];
+
+  getPrices(bar.buyVolumes, bar.sellVolumes).forEach((price) => {
+    const buyVolume = bar.buyVolumes[price] ?? 0;
+    const sellVolume = bar.sellVolumes[price] ?? 0;
+
+    const bidVolume =
+      bar.sellVolumes[roundPrice(price - priceTick, priceTick)] ?? 0;
+    const askVolume =
+      bar.buyVolumes[roundPrice(price + priceTick, priceTick)] ?? 0;
+
+    if (buyVolume >= minVolume && buyVolume >= bidVolume * ratio) {
+      imbalances.push(
+        Object.freeze({
+          side: "buy",
+          price,
+          volume: buyVolume,
+          opposite: bidVolume,
+        }),
+      );
+    }
+
+    if (sellVolume >= minVolume && sellVolume >= askVolume * ratio) {
+      imbalances.push(
+        Object.freeze({
+          side: "sell",
+          price,
+          volume: sellVolume,
+          opposite: askVolume,
+        }),
+      );
+    }
+  });
+
+  return imbalances;
+};
+
+export const calcStackedImbalances = (
+  imbalances: Imbalance[],
+  priceTick: number = 1,
+  levels: number = 3,
+) => {
+  const stacked: StackedImbalance[] = [];
+
+  (["buy", "sell"] as const).forEach((side) => {
+    const prices = imbalances
+      .filter((imbalance) => imbalance.side === side)
+      .map((imbalance) => imbalance.price)
+      .sort((a, b) => a - b);
+
+    let start = 0;
+
+    for (let i = 1; i <= prices.length; ++i) {
+      const isStacked =
+        i < prices.length &&
+        roundPrice(prices[i]! - prices[i - 1]!, priceTick) === priceTick;
+
+      if (isStacked) {
+        continue;
+      }
+
+      if (i - start >= levels) {
+        stacked.push(
+          Object.freeze({
+            side,
+            low: prices[start]!,
+            high: prices[i - 1]!,
+            levels: i - start,
+          }),
+        );
+      }
+
+      start = i;
+    }
+  });
+
+  return stacked;
+};
+
+export const calcOrderFlowSignals = (
+  bar: BarData,
+  absorptionRatio: number = 2,
+  exhaustionRatio: number = 0.2,
+) => {
+  const signals: OrderFlowSignal[] = [];
+  const prices = getPrices(bar.buyVolumes, bar.sellVolumes);
+
+  if (prices.length < 2) {
+    return signals;
+  }
+
+  const total = prices.reduce(
+    (sum, price) => sum + getVolume(bar.buyVolumes, bar.sellVolumes, price),
+    0,
+  );
+
+  const average = total / prices.length;
+
+  const highBuy = bar.buyVolumes[bar.highPrice] ?? 0;
+  const lowSell = bar.sellVolumes[bar.lowPrice] ?? 0;
+
+  if (highBuy >= average * absorptionRatio && bar.closePrice < bar.highPrice) {
+    signals.push(
+      Object.freeze({
+        type: "absorption",
+        side: "buy",
+        price: bar.highPrice,
+        volume: highBuy,
+      }),
+    );
+  }
+
+  if (lowSell >= average * absorptionRatio && bar.closePrice > bar.lowPrice) {
+    signals.push(
+      Object.freeze({
+        type: "absorption",
+        side: "sell",
+        price: bar.lowPrice,
+        volume: lowSell,
+      }),
+    );
+  }
+
+  const highVolume = getVolume(bar.buyVolumes, bar.sellVolumes, bar.highPrice);
+  const lowVolume = getVolume(bar.buyVolumes, bar.sellVolumes, bar.lowPrice);
+
+  if (highVolume <= average * exhaustionRatio) {
+    signals.push(
+      Object.freeze({
+        type: "exhaustion",
+        side: "buy",
+        price: bar.highPrice,
+        volume: highVolume,
+      }),
+    );
+  }
+
+  if (lowVolume <= average * exhaustionRatio) {
+    signals.push(
+      Object.freeze({
+        type: "exhaustion",
+        side: "sell",
+        price: bar.lowPrice,
+        volume: lowVolume,
+      }),
+    );
+  }
+
+  return signals;
+};
+
+export class OrderFlowAnalyzer implements IBarReceiver {
+  private readonly receivers: IOrderFlowReceiver[];
+  private readonly flows: Map<string, SymbolFlow>;
+  private readonly priceTick: number;
+  private readonly imbalanceRatio: number;
+  private readonly imbalanceMinVolume: number;
+  private readonly stackedLevels: number;
+  private readonly valueAreaRatio: number;
+  private readonly absorptionRatio: number;
+  private readonly exhaustionRatio: number;
+  private readonly calendar: ITradingCalendar;
+
+  constructor(options?: OrderFlowOptions) {
+    this.receivers = [];
+    this.flows = new Map();
+    this.priceTick = options?.priceTick ?? 1;
+    this.imbalanceRatio = options?.imbalanceRatio ?? 3;
+    this.imbalanceMinVolume = options?.imbalanceMinVolume ?? 1;
+    this.stackedLevels = options?.stackedLevels ?? 3;
+    this.valueAreaRatio = options?.valueAreaRatio ?? 0.7;
+    this.absorptionRatio = options?.absorptionRatio ?? 2;
+    this.exhaustionRatio = options?.exhaustionRatio ?? 0.2;
+    this.calendar = options?.calendar ?? createTradingCalendar();
+  }
+
+  addReceiver(receiver: IOrderFlowReceiver) {
+    if (!this.receivers.includes(receiver)) {
+      this.receivers.push(receiver);
+    }
+  }
+
+  removeReceiver(receiver: IOrderFlowReceiver) {
+    const index = this.receivers.indexOf(receiver);
+
+    if (index >= 0) {
+      this.receivers.splice(index, 1);
+    }
+  }
+
+  getCumulativeDelta(symbol: string) {
+    return this.flows.get(symbol)?.cumulativeDelta ?? 0;
+  }
+
+  getVolumeProfile(symbol: string): VolumeProfile | undefined {
+    const flow = this.flows.get(symbol);
+
+    if (!flow) {
+      return undefined;
+    }
+
+    const buyVolumes = Object.freeze({ ...flow.buyVolumes });
+    const sellVolumes = Object.freeze({ ...flow.sellVolumes });
+
+    return Object.freeze({
+      symbol,
+      tradingDay: flow.tradingDay,
+      volume: flow.profileVolume,
+      delta: flow.cumulativeDelta,
+      valueArea: calcValueArea(buyVolumes, sellVolumes, this.valueAreaRatio),
+      buyVolumes,
+      sellVolumes,
+    });
+  }
+
+  onBar(bar: BarData, historical?: boolean) {
+    const flow = this._ensureFlow(bar);
+
+    flow.cumulativeDelta += bar.delta;
+    flow.profileVolume += bar.volume;
+
+    addVolumes(flow.buyVolumes, bar.buyVolumes);
+    addVolumes(flow.sellVolumes, bar.sellVolumes);
+
+    const imbalances = calcImbalances(
+      bar,
+      this.priceTick,
+      this.imbalanceRatio,
+      this.imbalanceMinVolume,
+    );
+
+    const data: OrderFlowData = Object.freeze({
+      bar,
+      cumulativeDelta: flow.cumulativeDelta,
+      valueArea: calcValueArea(
+        bar.buyVolumes,
+        bar.sellVolumes,
+        this.valueAreaRatio,
+      ),
+      imbalances,
+      stackedImbalances: calcStackedImbalances(
+        imbalances,
+        this.priceTick,
+        this.stackedLevels,
+      ),
+      signals: calcOrderFlowSignals(
+        bar,
+        this.absorptionRatio,
+        this.exhaustionRatio,
+      ),
+      tapeVolumes: Object.freeze(flow.tapeVolumes),
+    });
+
+    flow.tapeVolumes = {};
+
+    this.receivers.forEach((receiver) =>
+      receiver.onOrderFlow(data, historical),
+    );
+  }
+
+  onUpdateBar(bar: BarData, tick: TickData, tape: TapeData) {
+    const flow = this._ensureFlow(bar);
+
+    flow.tapeVolumes[tape.status] =
+      tape.volumeDelta + (flow.tapeVolumes[tape.status] ?? 0);
+  }
+
+  private _ensureFlow(bar: BarData) {
+    const tradingDay = this.calendar.getTradingDay(bar.date, bar.time);
+    const flow = this.flows.get(bar.symbol);
+
+    if (flow && flow.tradingDay === tradingDay) {
+      return flow;
+    }
+
+    const newFlow: SymbolFlow = {
+      tradingDay,
+      cumulativeDelta: 0,
+      profileVolume: 0,
+      buyVolumes: {},
+      sellVolumes: {},
+      tapeVolumes: flow ? flow.tapeVolumes : {},
+    };
+
+    this.flows.set(bar.symbol, newFlow);
+
+    return newFlow;
+  }
+}
+
+export const createOrderFlowAnalyzer = (options?: OrderFlowOptions) =>
+  new OrderFlowAnalyzer(options);
@@ -0,0 +1,183 @@
+/*
+ * position.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calcClosable,
+  calcCloseOffsets,
+  createPositionBook,
+  freezePosition,
+  reconcilePositions,
+  recordPending,
+  splitCloseVolume,
+  unfreezePosition,
+} from "./position.js";
+import { TestSymbol, createOrder } from "./testing.js";
+import type {
+  OffsetType,
+  PositionData,
+  SideType,
+  TradeData,
+} from "./typedef.js";
+
+const createFilledOrder = (offset: OffsetType, side: SideType) =>
+  createOrder({ offset, side, status: "filled" });
+
+const createTrade = (price: number, volume: number): TradeData => ({
+  id: "1",
+  date: 20250102,
+  time: 93000,
+  price: price,
+  volume: volume,
+});
+
+const createPosition = (
+  today: { long: number; short: number },
+  history: { long: number; short: number },
+): PositionData => ({
+  symbol: TestSymbol,
+  today: {
+    long: { position: today.long, frozen: 0 },
+    short: { position: today.short, frozen: 0 },
+  },
+  history: {
+    long: { position: history.long, frozen: 0 },
+    short: { position: history.short, frozen: 0 },
+  },
+  pending: { long: 0, short: 0 },
+});
+
+describe("PositionBook", () => {
+  it("tracks average price and close profit", () => {
+    const book = createPositionBook();
+
+    book.settle(20250102);
+    book.onTrade(createFilledOrder("open", "long"), createTrade(3000, 1), 10);
+    book.onTrade(createFilledOrder("open", "long"), createTrade(3010, 1), 10);
+    book.onTrade(createFilledOrder("close", "short"), createTrade(3020, 1), 10);
+
+    const position = book.getPosition(TestSymbol);
+
+    assert.equal(position?.long.today, 1);
+    assert.equal(position?.long.price, 3005);
+    assert.equal(position?.closeProfit, 150);
+    assert.equal(position?.positionProfit, 150);
+  });
+
+  it("moves today volume into history on a new trading day", () => {
+    const book = createPositionBook();
+
+    book.settle(20250102);
+    book.onTrade(createFilledOrder("open", "short"), createTrade(3000, 2), 10);
+    book.settle(20250103);
+
+    assert.deepEqual(book.getPosition(TestSymbol)?.short, {
+      today: 0,
+      history: 2,
+      price: 3000,
+    });
+  });
+});
+
+describe("reconcilePositions", () => {
+  it("compares books on top of the opening baseline", () => {
+    const book = createPositionBook();
+
+    book.settle(20250102);
+    book.onTrade(createFilledOrder("open", "long"), createTrade(3000, 1), 10);
+
+    const baseline = [
+      createPosition({ long: 0, short: 0 }, { long: 2, short: 0 }),
+    ];
+    const account = createPosition(
+      { long: 1, short: 0 },
+      { long: 2, short: 0 },
+    );
+
+    assert.deepEqual(reconcilePositions([book], [account], baseline), []);
+    assert.deepEqual(reconcilePositions([book], [account]), [
+      { symbol: TestSymbol, side: "long", book: 1, account: 3 },
+    ]);
+  });
+});
+
+describe("freezePosition", () => {
+  it("freezes the opposite side for closes", () => {
+    const position = createPosition(
+      { long: 2, short: 0 },
+      { long: 3, short: 0 },
+    );
+
+    freezePosition(position, "short", "close", 1);
+    freezePosition(position, "short", "close-today", 2);
+
+    assert.equal(calcClosable(position, "short", "close", "SHFE"), 2);
+    assert.equal(calcClosable(position, "short", "close-today", "SHFE"), 0);
+    assert.equal(calcClosable(position, "short", "close", "DCE"), 2);
+
+    unfreezePosition(position, "short", "close-today", 5);
+
+    assert.equal(position.today.long.frozen, 0);
+  });
+
+  it("records open orders as pending instead", () => {
+    const position = createPosition(
+      { long: 0, short: 0 },
+      { long: 0, short: 0 },
+    );
+
+    freezePosition(position, "long", "open", 2);
+    recordPending(position, "long", "open", 2);
+    recordPending(position, "short", "close", 1);
+
+    assert.deepEqual(position.pending, { long: 2, short: 0 });
+    assert.equal(position.history.short.frozen, 0);
+  });
+});
+
+describe("splitCloseVolume", () => {
+  const position = createPosition({ long: 2, short: 0 }, { long: 3, short: 0 });
+
+  it("orders close offsets by exchange and preference", () => {
+    assert.deepEqual(calcCloseOffsets("DCE", "today-first"), ["close"]);
+    assert.deepEqual(calcCloseOffsets("SHFE"), ["close", "close-today"]);
+    assert.deepEqual(calcCloseOffsets("INE", "today-first"), [
+      "close-today",
+      "close",
+    ]);
+  });
+
+  it("splits history and today on close-today exchanges", () => {
+    assert.deepEqual(splitCloseVolume(position, "short", 4, "SHFE"), [
+      { offset: "close", volume: 3 },
+      { offset: "close-today", volume: 1 },
+    ]);
+    assert.deepEqual(
+      splitCloseVolume(position, "short", 4, "SHFE", "today-first"),
+      [
+        { offset: "close-today", volume: 2 },
+        { offset: "close", volume: 2 },
+      ],
+    );
+  });
+
+  it("returns only the closable part of an oversized request", () => {
+    assert.deepEqual(splitCloseVolume(position, "short", 9, "SHFE"), [
+      { offset: "close", volume: 3 },
+      { offset: "close-today", volume: 2 },
+    ]);
+    assert.deepEqual(splitCloseVolume(position, "short", 9, "DCE"), [
+      { offset: "close", volume: 5 },
+    ]);
+    assert.deepEqual(splitCloseVolume(position, "long", 1, "DCE"), []);
+  });
+});
@@ -0,0 +1,598 @@
+/*
+ * position.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  BookPosition,
+  ClosePreference,
+  CloseVolume,
+  OffsetType,
+  OrderData,
+  PositionData,
+  PositionMismatch,
+  SideType,
+  TradeData,
+  Writeable,
+} from "./typedef.js";
+
+export type PositionInfo = Writeable<PositionData>;
+
+const ExchangeSH = ["SHFE", "INE"];
+
+type BookInfo = Writeable<BookPosition> & { multiple: number };
+
+export const isCloseTodayExchange = (exchangeId: string) =>
+  ExchangeSH.includes(exchangeId);
+
+export const createPositionInfo = (symbol: string): PositionInfo => ({
+  symbol: symbol,
+  today: {
+    long: { position: 0, frozen: 0 },
+    short: { position: 0, frozen: 0 },
+  },
+  history: {
+    long: { position: 0, frozen: 0 },
+    short: { position: 0, frozen: 0 },
+  },
+  pending: { long: 0, short: 0 },
+});
+
+export const toPositionData = (position: PositionInfo): PositionData =>
+  Object.freeze({
+    symbol: position.symbol,
+
+    today: Object.freeze({
+      long: Object.freeze({ ...position.today.long }),
+      short: Object.freeze({ ...position.today.short }),
+    }),
+    history: Object.freeze({
+      long: Object.freeze({ ...position.history.long }),
+      short: Object.freeze({ ...position.history.short }),
+    }),
+    pending: Object.freeze({ ...position.pending }),
+  });
+
+export const bookToPositionData = (position: BookPosition): PositionData =>
+  Object.freeze({
+    symbol: position.symbol,
+
+    today: Object.freeze({
+      long: Object.freeze({ position: position.long.today, frozen: 0 }),
+      short: Object.freeze({ position: position.short.today, frozen: 0 }),
+    }),
+    history: Object.freeze({
+      long: Object.freeze({ position: position.long.history, frozen: 0 }),
+      short: Object.freeze({ position: position.short.history, frozen: 0 }),
+    }),
+    pending: Object.freeze({ long: 0, short: 0 }),
+  });
+
+export const calcPosition = (
+  position: PositionInfo,
+  side: SideType,
+  offset: OffsetType,
+  volume: number,
+) => {
+  switch (offset) {
+    case "open":
+      switch (side) {
+        case "long":
+          position.today.long.position += volume;
+
+          if (position.pending.long >= volume) {
+            position.pending.long -= volume;
+          } else {
+            position.pending.long = 0;
+          }
+          break;
+
+        case "short":
+          position.today.short.position += volume;
+
+          if (position.pending.short >= volume) {
+            position.pending.short -= volume;
+          } else {
+            position.pending.short = 0;
+          }
+          break;
+      }
+      break;
+
+    case "close":
+      switch (side) {
+        case "long":
+          if (position.history.short.position >= volume) {
+            position.history.short.position -= volume;
+          } else {
+            const rest = volume - position.history.short.position;
+            position.history.short.position -= position.history.short.position;
+
+            if (rest > 0) {
+              if (position.today.short.position >= rest) {
+                position.today.short.position -= rest;
+              } else {
+                position.today.short.position = 0;
+              }
+            }
+          }
+
+          if (position.history.short.frozen >= volume) {
+            position.history.short.frozen -= volume;
+          } else {
+            const rest = volume - position.history.short.frozen;
+            position.history.short.frozen -= position.history.short.frozen;
+
+            if (rest > 0) {
+              if (position.today.short.frozen >= rest) {
+                position.today.short.frozen -= rest;
+              } else {
+                position.today.short.frozen = 0;
+              }
+            }
+          }
+          break;
+
+        case "short":
+          if (position.history.long.position >= volume) {
+            position.history.long.position -= volume;
+          } else {
+            const rest = volume - position.history.long.position;
+            position.history.long.position -= position.history.long.position;
+
+            if (rest > 0) {
+              if (position.today.long.position >= rest) {
+                position.today.long.position -= rest;
+              } else {
+                position.today.long.position = 0;
+              }
+            }
+          }
+
+          if (position.history.long.frozen >= volume) {
+            position.history.long.frozen -= volume;
+          } else {
+            const rest = volume - position.history.long.frozen;
+            position.history.long.frozen -= position.history.long.frozen;
+
+            if (rest > 0) {
+              if (position.today.long.frozen >= rest) {
+                position.today.long.frozen -= rest;
+              } else {
+                position.today.long.frozen = 0;
+              }
+            }
+          }
+          break;
+      }
+      break;
+
+    case "close-today":
+      switch (side) {
+        case "long":
+          if (position.today.short.position >= volume) {
+            position.today.short.position -= volume;
+          } else {
+            position.today.short.position = 0;
+          }
+
+          if (position.today.short.frozen >= volume) {
+            position.today.short.frozen -= volume;
+          } else {
+            position.today.short.frozen = 0;
+          }
+          break;
+
+        case "short":
+          if (position.today.long.position >= volume) {
+            position.today.long.position -= volume;
+          } else {
+            position.today.long.position = 0;
+          }
+
+          if (position.today.long.frozen >= volume) {
+            position.today.long.frozen -= volume;
+          } else {
+            position.today.long.frozen = 0;
+          }
+          break;
+      }
+      break;
+  }
+};
+
+export const calcClosable = (
+  position: PositionData,
+  side: SideType,
+  offset: OffsetType,
+  exchangeId: string,
+) => {
+  const today = side === "long" ? position.today.short : position.today.long;
+
+  const history =
+    side === "long" ? position.history.short : position.history.long;
+
+  switch (offset) {
+    case "close":
+      return ExchangeSH.includes(exchangeId)
+        ? history.position - history.frozen
+        : history.position + today.position - history.frozen - today.frozen;
+
+    case "close-today":
+      return today.position - today.frozen;
+
+    default:
+      return 0;
+  }
+};
+
+export const calcCloseOffsets = (
+  exchangeId: string,
+  preference: ClosePreference = "history-first",
+): OffsetType[] => {
+  if (!isCloseTodayExchange(exchangeId)) {
+    return ["close"];
+  }
+
+  return preference === "today-first"
+    ? ["close-today", "close"]
+    : ["close", "close-today"];
+};
+
+export const splitCloseVolume = (
+  position: PositionData,
+  side: SideType,
+  volume: number,
+  exchangeId: string,
+  preference: ClosePreference = "history-first",
+) => {
+  const volumes: CloseVolume[] = [];
+
+  let rest = volume;
+
+  calcCloseOffsets(exchangeId, preference).forEach((offset) => {
+    const closable = Math.min(
+      calcClosable(position, side, offset, exchangeId),
+      rest,
+    );
+
+    if (closable > 0) {
+      volumes.push(Object.freeze({ offset, volume: closable }));
+      rest -= closable;
+    }
+  });
+
+  return volumes;
+};
+
+export const recordPending = (
+  position: PositionInfo,
+  side: SideType,
+  offset: OffsetType,
+  volume: number,
+) => {
+  if (offset !== "open") {
+    return;
+  }
+
+  switch (side) {
+    case "long":
+      position.pending.long += volume;
+      break;
+
+    case "short":
+      position.pending.short += volume;
+      break;
+  }
+};
+
+export const recoverPending = (
+  position: PositionInfo,
+  side: SideType,
+  offset: OffsetType,
+  volume: number,
+) => {
+  if (offset !== "open") {
+    return;
+  }
+
+  switch (side) {
+    case "long":
+      position.pending.long -= volume;
+      break;
+
+    case "short":
+      position.pending.short -= volume;
+      break;
+  }
+};
+
+export const freezePosition = (
+  position: PositionInfo,
+  side: SideType,
+  offset: OffsetType,
+  volume: number,
+) => {
+  switch (offset) {
+    case "close":
+      switch (side) {
+        case "long":
+          position.history.short.frozen += volume;
+          break;
+
+        case "short":
+          position.history.long.frozen += volume;
+          break;
+      }
+      break;
+
+    case "close-today":
+      switch (side) {
+        case "long":
+          position.today.short.frozen += volume;
+          break;
+
+        case "short":
+          position.today.long.frozen += volume;
+          break;
+      }
+      break;
+  }
+};
+
+export const unfreezePosition = (
+  position: PositionInfo,
+  side: SideType,
+  offset: OffsetType,
+  volume: number,
+) => {
+  switch (offset) {
+    case "close":
+      switch (side) {
+        case "long":
+          if (position.history.short.frozen >= volume) {
+            position.history.short.frozen -= volume;
+          } else {
+            position.history.short.frozen = 0;
+          }
+
+          break;
+
+        case "short":
+          if (position.history.long.frozen >= volume) {
+            position.history.long.frozen -= volume;
+          } else {
+            position.history.long.frozen = 0;
+          }
+          break;
+      }
+      break;
+
+    case "close-today":
+      switch (side) {
+        case "long":
+          if (position.today.short.frozen >= volume) {
+            position.today.short.frozen -= volume;
+          } else {
+            position.today.short.frozen = 0;
+          }
+          break;
+
+        case "short":
+          if (position.today.long.frozen >= volume) {
+            position.today.long.frozen -= volume;
+          } else {
+            position.today.long.frozen = 0;
+          }
+          break;
+      }
+      break;
+  }
+};
+
+const createBookInfo = (symbol: string, multiple: number): BookInfo => ({
+  symbol: symbol,
+  long: { today: 0, history: 0, price: 0 },
+  short: { today: 0, history: 0, price: 0 },
+  lastPrice: 0,
+  closeProfit: 0,
+  positionProfit: 0,
+  multiple: multiple,
+});
+
+const toBookPosition = (position: BookInfo): BookPosition =>
+  Object.freeze({
+    symbol: position.symbol,
+    long: Object.freeze({ ...position.long }),
+    short: Object.freeze({ ...position.short }),
+    lastPrice: position.lastPrice,
+    closeProfit: position.closeProfit,
+    positionProfit: position.positionProfit,
+  });
+
+export class PositionBook {
+  private tradingDay: number;
+  private readonly positions: Map<string, BookInfo>;
+
+  constructor() {
+    this.tradingDay = 0;
+    this.positions = new Map();
+  }
+
+  get symbols() {
+    return Array.from(this.positions.keys());
+  }
+
+  settle(tradingDay: number) {
+    if (this.tradingDay === tradingDay) {
+      return;
+    }
+
+    if (this.tradingDay !== 0) {
+      this.positions.forEach((position) => {
+        position.long.history += position.long.today;
+        position.long.today = 0;
+
+        position.short.history += position.short.today;
+        position.short.today = 0;
+      });
+    }
+
+    this.tradingDay = tradingDay;
+  }
+
+  onTrade(order: OrderData, trade: TradeData, multiple: number) {
+    let position = this.positions.get(order.symbol);
+
+    if (!position) {
+      position = createBookInfo(order.symbol, multiple);
+      this.positions.set(order.symbol, position);
+    }
+
+    if (order.offset === "open") {
+      const cell = position[order.side];
+      const volume = cell.today + cell.history;
+
+      cell.price =
+        (cell.price * volume + trade.price * trade.volume) /
+        (volume + trade.volume);
+      cell.today += trade.volume;
+    } else {
+      const isLong = order.side === "long";
+      const cell = isLong ? position.short : position.long;
+      let rest = trade.volume;
+
+      if (order.offset === "close") {
+        const volume = Math.min(cell.history, rest);
+
+        cell.history -= volume;
+        rest -= volume;
+      }
+
+      const volume = Math.min(cell.today, rest);
+
+      cell.today -= volume;
+      rest -= volume;
+
+      position.closeProfit +=
+        (isLong ? cell.price - trade.price : trade.price - cell.price) *
+        (trade.volume - rest) *
+        position.multiple;
+
+      if (cell.today + cell.history === 0) {
+        cell.price = 0;
+      }
+    }
+
+    this._markPrice(position, trade.price);
+  }
+
+  updatePrice(symbol: string, price: number) {
+    const position = this.positions.get(symbol);
+
+    if (position) {
+      this._markPrice(position, price);
+    }
+  }
+
+  getPosition(symbol: string) {
+    const position = this.positions.get(symbol);
+    return position ? toBookPosition(position) : undefined;
+  }
+
+  getPositions() {
+    return Array.from(this.positions.values()).map(toBookPosition);
+  }
+
+  private _markPrice(position: BookInfo, price: number) {
+    const long = position.long.today + position.long.history;
+    const short = position.short.today + position.short.history;
+
+    position.lastPrice = price;
+    position.positionProfit =
+      ((price - position.long.price) * long +
+        (position.short.price - price) * short) *
+      position.multiple;
+  }
+}
+
+export const reconcilePositions = (
+  books: PositionBook[],
+  positions: PositionData[],
+  baseline: PositionData[] = [],
+) => {
+  const volumes = new Map<string, { long: number; short: number }>();
+
+  const ensureVolume = (symbol: string) => {
+    let volume = volumes.get(symbol);
+
+    if (!volume) {
+      volume = { long: 0, short: 0 };
+      volumes.set(symbol, volume);
+    }
+
+    return volume;
+  };
+
+  books.forEach((book) =>
+    book.getPositions().forEach((position) => {
+      const volume = ensureVolume(position.symbol);
+
+      volume.long += position.long.today + position.long.history;
+      volume.short += position.short.today + position.short.history;
+    }),
+  );
+
+  baseline.forEach((position) => {
+    const volume = ensureVolume(position.symbol);
+
+    volume.long +=
+      position.today.long.position + position.history.long.position;
+    volume.short +=
+      position.today.short.position + position.history.short.position;
+  });
+
+  const accounts = new Map(
+    positions.map((position) => [position.symbol, position]),
+  );
+
+  accounts.forEach((_, symbol) => ensureVolume(symbol));
+
+  const mismatches: PositionMismatch[] = [];
+
+  volumes.forEach((volume, symbol) => {
+    const position = accounts.get(symbol);
+
+    const account = {
+      long: position
+        ? position.today.long.position + position.history.long.position
+        : 0,
+      short: position
+        ? position.today.short.position + position.history.short.position
+        : 0,
+    };
+
+    (["long", "short"] as SideType[]).forEach((side) => {
+      if (volume[side] !== account[side]) {
+        mismatches.push(
+          Object.freeze({
+            symbol: symbol,
+            side: side,
+            book: volume[side],
+            account: account[side],
+          }),
+        );
+      }
+    });
+  });
+
+  return mismatches;
+};
+
+export const createPositionBook = () => new PositionBook();
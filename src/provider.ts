@@ -11,6 +11,7 @@
 
 import fs from "node:fs";
 import ctp, { type CallbackOptions } from "napi-ctp";
+import { parseTime } from "./utils.js";
 import type { ErrorType, ILifecycleListener } from "./interfaces.js";
 
 export class CTPProvider {
@@ -69,7 +70,6 @@ export class CTPProvider {
   }
 
   protected _parseTime(time: string) {
-    const [hh = 0, mm = 0, ss = 0] = time.split(":").map((x) => parseInt(x));
-    return hh * 10000 + mm * 100 + ss;
+    return parseTime(time);
   }
 }
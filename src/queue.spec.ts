@@ -0,0 +1,89 @@
+/*
+ * queue.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createQueueEstimator } from "./queue.js";
+import { TestSymbol, createOrder, createTick } from "./testing.js";
+import type { TapeData } from "./typedef.js";
+
+const createBidTick = (
+  lastPrice: number,
+  bids: number[],
+  bidVolumes: number[],
+) =>
+  createTick(lastPrice, {
+    orderBook: {
+      asks: { price: [3001], volume: [1] },
+      bids: { price: bids, volume: bidVolumes },
+    },
+  });
+
+const createTape = (volumeDelta: number): TapeData => ({
+  type: "open",
+  direction: "down",
+  status: volumeDelta > 0 ? "open-short" : "invalid",
+  interestDelta: volumeDelta,
+  volumeDelta: volumeDelta,
+  amountDelta: 0,
+});
+
+describe("QueueEstimator", () => {
+  it("advances the queue on trades and cancels at the order price", () => {
+    const estimator = createQueueEstimator();
+
+    estimator.onTick(createBidTick(3001, [3000], [10]), createTape(0));
+    estimator.onEntrust(createOrder({ price: 3000 }));
+
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.ahead, 10);
+
+    estimator.onTick(createBidTick(3000, [3000], [6]), createTape(4));
+
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.ahead, 6);
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.fillProbability, 0.4);
+
+    estimator.onTick(createBidTick(3001, [3000], [3]), createTape(0));
+
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.ahead, 3);
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.fillable, 0);
+  });
+
+  it("marks the rest fillable on a trade-through", () => {
+    const estimator = createQueueEstimator();
+
+    estimator.onTick(createBidTick(3001, [3000], [10]), createTape(0));
+    estimator.onEntrust(createOrder({ price: 3000 }));
+    estimator.onTick(createBidTick(2999, [2999], [5]), createTape(12));
+
+    const position = estimator.getQueuePosition("SHFE:1");
+
+    assert.equal(position?.ahead, 0);
+    assert.equal(position?.fillable, 2);
+    assert.equal(position?.fillProbability, 1);
+  });
+
+  it("waits for the level to appear when priced beyond the book", () => {
+    const estimator = createQueueEstimator();
+
+    estimator.onTick(createBidTick(3001, [3000, 2999], [1, 1]), createTape(0));
+    estimator.onEntrust(createOrder({ price: 2990 }));
+
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.fillProbability, 0);
+
+    estimator.onTick(createBidTick(3001, [2991, 2990], [1, 7]), createTape(0));
+
+    assert.equal(estimator.getQueuePosition("SHFE:1")?.initialAhead, 7);
+
+    estimator.onCancel(createOrder({ price: 2990 }));
+
+    assert.deepEqual(estimator.getQueuePositions(TestSymbol), []);
+  });
+});
@@ -0,0 +1,220 @@
+/*
+ * queue.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  OrderData,
+  QueuePosition,
+  TapeData,
+  TapeSide,
+  TickData,
+  TradeData,
+} from "./typedef.js";
+import type { IOrderReceiver, ITickReceiver } from "./interfaces.js";
+
+type QueueState = {
+  order: OrderData;
+  rest: number;
+  ahead: number;
+  initialAhead: number;
+  levelVolume: number;
+  fillable: number;
+  known: boolean;
+};
+
+const getLevelVolume = (tapeSide: TapeSide, price: number) => {
+  const index = tapeSide.price.indexOf(price);
+  return index >= 0 ? tapeSide.volume[index] : undefined;
+};
+
+const isBeyondBook = (tapeSide: TapeSide, price: number, isLong: boolean) => {
+  if (tapeSide.price.length === 0) {
+    return false;
+  }
+
+  const worstPrice = tapeSide.price[tapeSide.price.length - 1]!;
+  return isLong ? price < worstPrice : price > worstPrice;
+};
+
+export class QueueEstimator implements IOrderReceiver, ITickReceiver {
+  private readonly lastTicks: Map<string, TickData>;
+  private readonly queues: Map<string, QueueState>;
+
+  constructor() {
+    this.lastTicks = new Map();
+    this.queues = new Map();
+  }
+
+  getQueuePosition(orderId: string) {
+    const state = this.queues.get(orderId);
+    return state ? this._toQueuePosition(state) : undefined;
+  }
+
+  getQueuePositions(symbol?: string) {
+    const positions: QueuePosition[] = [];
+
+    this.queues.forEach((state) => {
+      if (symbol === undefined || state.order.symbol === symbol) {
+        positions.push(this._toQueuePosition(state));
+      }
+    });
+
+    return positions;
+  }
+
+  onTick(tick: TickData, tape: TapeData) {
+    this.lastTicks.set(tick.symbol, tick);
+
+    this.queues.forEach((state) => {
+      if (state.order.symbol === tick.symbol) {
+        this._update(state, tick, tape);
+      }
+    });
+  }
+
+  onEntrust(order: OrderData) {
+    if (order.flag !== "limit" || this.queues.has(order.id)) {
+      return;
+    }
+
+    const state: QueueState = {
+      order,
+      rest: order.volume - order.traded,
+      ahead: 0,
+      initialAhead: 0,
+      levelVolume: 0,
+      fillable: 0,
+      known: false,
+    };
+
+    const tick = this.lastTicks.get(order.symbol);
+
+    if (tick) {
+      const isLong = order.side === "long";
+      const tapeSide = isLong ? tick.orderBook.bids : tick.orderBook.asks;
+      const volume = getLevelVolume(tapeSide, order.price);
+
+      if (volume !== undefined) {
+        this._resetQueue(state, volume);
+      } else if (!isBeyondBook(tapeSide, order.price, isLong)) {
+        this._resetQueue(state, 0);
+      }
+    }
+
+    this.queues.set(order.id, state);
+  }
+
+  onTrade(order: OrderData, trade: TradeData) {
+    const state = this.queues.get(order.id);
+
+    if (!state) {
+      return;
+    }
+
+    if (order.status === "filled") {
+      this.queues.delete(order.id);
+      return;
+    }
+
+    state.order = order;
+    state.rest = order.volume - order.traded;
+    state.fillable = Math.max(state.fillable - trade.volume, 0);
+  }
+
+  onCancel(order: OrderData) {
+    this.queues.delete(order.id);
+  }
+
+  onReject(order: OrderData) {
+    this.queues.delete(order.id);
+  }
+
+  private _resetQueue(state: QueueState, volume: number) {
+    state.ahead = volume;
+    state.initialAhead = volume;
+    state.levelVolume = volume;
+    state.known = true;
+  }
+
+  private _update(state: QueueState, tick: TickData, tape: TapeData) {
+    const { price, side } = state.order;
+    const isLong = side === "long";
+    const tapeSide = isLong ? tick.orderBook.bids : tick.orderBook.asks;
+    const volume = getLevelVolume(tapeSide, price);
+
+    state.fillable = 0;
+
+    if (!state.known) {
+      if (volume !== undefined) {
+        this._resetQueue(state, volume);
+      }
+
+      return;
+    }
+
+    if (tape.volumeDelta > 0) {
+      const isTradeThrough = isLong
+        ? tick.lastPrice < price
+        : tick.lastPrice > price;
+
+      if (isTradeThrough) {
+        state.ahead = 0;
+        state.fillable = state.rest;
+        state.levelVolume = volume ?? 0;
+        return;
+      }
+    }
+
+    const traded =
+      tape.volumeDelta > 0 && tick.lastPrice === price ? tape.volumeDelta : 0;
+
+    const consumed = Math.min(state.ahead, traded);
+
+    state.ahead -= consumed;
+    state.fillable = Math.min(traded - consumed, state.rest);
+
+    const canceled = state.levelVolume - (volume ?? 0) - traded;
+
+    if (canceled > 0 && state.levelVolume > 0) {
+      state.ahead -= (canceled * state.ahead) / state.levelVolume;
+    }
+
+    if (volume !== undefined) {
+      state.ahead = Math.min(state.ahead, volume);
+      state.levelVolume = volume;
+    } else if (!isBeyondBook(tapeSide, price, isLong)) {
+      state.ahead = 0;
+      state.levelVolume = 0;
+    }
+
+    state.ahead = Math.max(state.ahead, 0);
+  }
+
+  private _toQueuePosition(state: QueueState): QueuePosition {
+    const fillProbability =
+      state.initialAhead > 0
+        ? Math.min(Math.max(1 - state.ahead / state.initialAhead, 0), 1)
+        : 1;
+
+    return Object.freeze({
+      orderId: state.order.id,
+      symbol: state.order.symbol,
+      side: state.order.side,
+      price: state.order.price,
+      volume: state.rest,
+      ahead: state.ahead,
+      initialAhead: state.initialAhead,
+      fillable: state.fillable,
+      fillProbability: state.known ? fillProbability : 0,
+    });
+  }
+}
+
+export const createQueueEstimator = () => new QueueEstimator();
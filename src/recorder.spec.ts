@@ -0,0 +1,132 @@
+/*
+ * recorder.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { DepthMarketDataField } from "@napi-ctp/types";
+import {
+  createMarketRecorder,
+  getRecordFields,
+  readMarketData,
+} from "./recorder.js";
+
+const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "hft-recorder-"));
+
+const createRecord = (fields: string[], instrumentId: string, level: number) =>
+  fields.map((field) => {
+    if (field === "InstrumentID") {
+      return instrumentId;
+    }
+
+    return field.startsWith("BidPrice") ? 3000 + level : 0;
+  });
+
+after(() => fs.rmSync(rootPath, { recursive: true, force: true }));
+
+describe("readMarketData", () => {
+  it("re-detects headers and skips malformed records", async () => {
+    const filePath = path.join(rootPath, "rb2510.jsonl");
+    const shallow = getRecordFields(1);
+    const deep = getRecordFields(2);
+
+    fs.writeFileSync(
+      filePath,
+      [
+        JSON.stringify(shallow),
+        JSON.stringify(createRecord(shallow, "rb2510", 1)),
+        '["rb2510","SHFE"',
+        JSON.stringify(deep),
+        JSON.stringify(createRecord(deep, "rb2510", 2)),
+        "",
+      ].join("\n"),
+    );
+
+    const errors: string[] = [];
+    const records = [];
+
+    for await (const record of readMarketData(filePath, {
+      onError: (_, message) => errors.push(message),
+    })) {
+      records.push(record);
+    }
+
+    assert.equal(records.length, 2);
+    assert.equal(records[0]?.BidPrice1, 3001);
+    assert.equal(records[0]?.BidPrice2, undefined);
+    assert.equal(records[1]?.BidPrice2, 3002);
+    assert.deepEqual(errors, [`Malformed Record: ${filePath}:3`]);
+  });
+
+  it("reports records without a header", async () => {
+    const filePath = path.join(rootPath, "ag2512.jsonl");
+    const fields = getRecordFields(1);
+
+    fs.writeFileSync(
+      filePath,
+      `${JSON.stringify(createRecord(fields, "ag2512", 1))}\n`,
+    );
+
+    const errors: string[] = [];
+
+    for await (const record of readMarketData(filePath, {
+      onError: (_, message) => errors.push(message),
+    })) {
+      assert.fail(`Unexpected record ${record.InstrumentID}`);
+    }
+
+    assert.deepEqual(errors, [`Missing Header: ${filePath}:1`]);
+  });
+});
+
+describe("MarketRecorder", () => {
+  it("closes the least recently used writers", async () => {
+    const recordPath = path.join(rootPath, "records");
+    const fields = getRecordFields(1);
+    const recorder = createMarketRecorder(recordPath, { maxWriters: 1 });
+
+    const record = (instrumentId: string, level: number) => {
+      const depthMarketData: Record<string, unknown> = {};
+      const values = createRecord(fields, instrumentId, level);
+
+      fields.forEach((field, index) => {
+        depthMarketData[field] = values[index];
+      });
+
+      depthMarketData.TradingDay = "20250102";
+
+      recorder.onMarketData(depthMarketData as DepthMarketDataField);
+    };
+
+    record("rb2510", 1);
+    record("hc2510", 1);
+    record("rb2510", 2);
+    recorder.onRecorderStop();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const filePath = path.join(recordPath, "20250102", "rb2510.jsonl");
+    const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+    const records = [];
+
+    for await (const record of readMarketData(filePath)) {
+      records.push(record);
+    }
+
+    assert.equal(lines.length, 4);
+    assert.deepEqual(
+      records.map((record) => record.BidPrice1),
+      [3001, 3002],
+    );
+  });
+});
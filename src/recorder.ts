@@ -0,0 +1,351 @@
+/*
+ * recorder.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import type { DepthMarketDataField } from "@napi-ctp/types";
+import type { IErrorReceiver, IMarketRecorderReceiver } from "./interfaces.js";
+import { DefaultDepth } from "./depth.js";
+
+const BaseFields = [
+  "InstrumentID",
+  "ExchangeID",
+  "TradingDay",
+  "ActionDay",
+  "UpdateTime",
+  "UpdateMillisec",
+  "PreSettlementPrice",
+  "PreClosePrice",
+  "PreOpenInterest",
+  "OpenPrice",
+  "HighestPrice",
+  "LowestPrice",
+  "LastPrice",
+  "ClosePrice",
+  "SettlementPrice",
+  "AveragePrice",
+  "Volume",
+  "Turnover",
+  "OpenInterest",
+  "UpperLimitPrice",
+  "LowerLimitPrice",
+  "BandingUpperPrice",
+  "BandingLowerPrice",
+];
+
+export const getRecordFields = (depth: number = DefaultDepth) => {
+  const fields = [...BaseFields];
+
+  for (let level = 1; level <= depth; ++level) {
+    fields.push(
+      `BidPrice${level}`,
+      `BidVolume${level}`,
+      `AskPrice${level}`,
+      `AskVolume${level}`,
+    );
+  }
+
+  return fields;
+};
+
+export const RecordFields = getRecordFields();
+
+const RecordExtension = ".jsonl";
+
+const RetainedDays = 2;
+
+const MaxWriters = 256;
+
+type RecordWriter = {
+  tradingDay: string;
+  stream: fs.WriteStream;
+};
+
+const isHeader = (record: unknown[]) => record[0] === BaseFields[0];
+
+const parseRecord = (line: string): unknown => {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+};
+
+export type MarketRecorderOptions = {
+  errorReceiver?: IErrorReceiver;
+  depth?: number;
+  maxWriters?: number;
+};
+
+export class MarketRecorder implements IMarketRecorderReceiver {
+  private readonly rootPath: string;
+  private readonly fields: string[];
+  private readonly maxWriters: number;
+  private readonly errorReceiver?: IErrorReceiver;
+  private readonly tradingDays: Set<string>;
+  private readonly writers: Map<string, RecordWriter>;
+
+  constructor(rootPath: string, options?: MarketRecorderOptions) {
+    this.rootPath = rootPath;
+    this.fields = getRecordFields(options?.depth);
+    this.maxWriters = options?.maxWriters ?? MaxWriters;
+    this.tradingDays = new Set();
+    this.writers = new Map();
+
+    if (options?.errorReceiver) {
+      this.errorReceiver = options.errorReceiver;
+    }
+  }
+
+  onMarketData(depthMarketData: DepthMarketDataField) {
+    const tradingDay = depthMarketData.TradingDay;
+
+    if (!this.tradingDays.has(tradingDay)) {
+      this.tradingDays.add(tradingDay);
+      this._retireTradingDays();
+
+      if (!this.tradingDays.has(tradingDay)) {
+        return;
+      }
+    }
+
+    const writer = this._ensureWriter(tradingDay, depthMarketData.InstrumentID);
+
+    if (!writer) {
+      return;
+    }
+
+    const record = this.fields.map(
+      (field) => depthMarketData[field as keyof DepthMarketDataField],
+    );
+
+    writer.write(`${JSON.stringify(record)}\n`);
+  }
+
+  onRecorderStop() {
+    this._closeWriters();
+    this.tradingDays.clear();
+  }
+
+  private _ensureWriter(tradingDay: string, instrumentId: string) {
+    const key = `${tradingDay}:${instrumentId}`;
+    const writer = this.writers.get(key);
+
+    if (writer) {
+      this.writers.delete(key);
+      this.writers.set(key, writer);
+      return writer.stream;
+    }
+
+    const dirPath = path.join(this.rootPath, tradingDay);
+    const filePath = path.join(dirPath, `${instrumentId}${RecordExtension}`);
+
+    let stream: fs.WriteStream;
+
+    try {
+      fs.mkdirSync(dirPath, { recursive: true });
+
+      stream = fs.createWriteStream(filePath, { flags: "a" });
+
+      stream.on("error", (error) => {
+        if (this.writers.get(key)?.stream === stream) {
+          this.writers.delete(key);
+        }
+
+        this._onError(error);
+      });
+
+      stream.write(`${JSON.stringify(this.fields)}\n`);
+    } catch (error) {
+      this._onError(error);
+      return undefined;
+    }
+
+    this.writers.set(key, { tradingDay, stream });
+    this._retireWriters();
+
+    return stream;
+  }
+
+  private _retireWriters() {
+    for (const [key, writer] of this.writers) {
+      if (this.writers.size <= this.maxWriters) {
+        break;
+      }
+
+      writer.stream.end();
+      this.writers.delete(key);
+    }
+  }
+
+  private _retireTradingDays() {
+    const tradingDays = Array.from(this.tradingDays).sort();
+
+    tradingDays.slice(0, -RetainedDays).forEach((tradingDay) => {
+      this.tradingDays.delete(tradingDay);
+      this._closeWriters(tradingDay);
+    });
+  }
+
+  private _closeWriters(tradingDay?: string) {
+    this.writers.forEach((writer, key) => {
+      if (tradingDay === undefined || writer.tradingDay === tradingDay) {
+        writer.stream.end();
+        this.writers.delete(key);
+      }
+    });
+  }
+
+  private _onError(error: unknown) {
+    if (this.errorReceiver) {
+      this.errorReceiver.onError("record-error", `${error}`);
+    }
+  }
+}
+
+export class MarketDataReader {
+  private readonly rootPath: string;
+  private readonly errorReceiver?: IErrorReceiver;
+
+  constructor(rootPath: string, errorReceiver?: IErrorReceiver) {
+    this.rootPath = rootPath;
+
+    if (errorReceiver) {
+      this.errorReceiver = errorReceiver;
+    }
+  }
+
+  getTradingDays() {
+    if (!fs.existsSync(this.rootPath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.rootPath, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && /^\d{8}$/.test(entry.name))
+      .map((entry) => parseInt(entry.name))
+      .sort((a, b) => a - b);
+  }
+
+  getInstruments(tradingDay: number) {
+    const dirPath = path.join(this.rootPath, `${tradingDay}`);
+
+    if (!fs.existsSync(dirPath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(dirPath)
+      .filter((file) => file.endsWith(RecordExtension))
+      .map((file) => file.slice(0, -RecordExtension.length))
+      .sort();
+  }
+
+  getFiles(tradingDay: number, instrumentIds?: string[]) {
+    const instruments = this.getInstruments(tradingDay);
+
+    return instruments
+      .filter((instrumentId) =>
+        instrumentIds ? instrumentIds.includes(instrumentId) : true,
+      )
+      .map((instrumentId) =>
+        path.join(
+          this.rootPath,
+          `${tradingDay}`,
+          `${instrumentId}${RecordExtension}`,
+        ),
+      );
+  }
+
+  read(tradingDay: number, instrumentId: string) {
+    return readMarketData(
+      path.join(
+        this.rootPath,
+        `${tradingDay}`,
+        `${instrumentId}${RecordExtension}`,
+      ),
+      this.errorReceiver,
+    );
+  }
+}
+
+export async function* readMarketData(
+  filePath: string,
+  errorReceiver?: IErrorReceiver,
+): AsyncGenerator<DepthMarketDataField> {
+  await fs.promises.access(filePath, fs.constants.R_OK);
+
+  const input = fs.createReadStream(filePath, "utf8");
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let fields: string[] | undefined;
+  let lineNumber = 0;
+
+  try {
+    for await (const line of lines) {
+      lineNumber += 1;
+
+      if (line.trim() === "") {
+        continue;
+      }
+
+      const record = parseRecord(line);
+
+      if (typeof record !== "object" || record === null) {
+        errorReceiver?.onError(
+          "record-error",
+          `Malformed Record: ${filePath}:${lineNumber}`,
+        );
+        continue;
+      }
+
+      if (!Array.isArray(record)) {
+        yield record as DepthMarketDataField;
+        continue;
+      }
+
+      if (isHeader(record)) {
+        fields = record as string[];
+        continue;
+      }
+
+      if (!fields) {
+        errorReceiver?.onError(
+          "record-error",
+          `Missing Header: ${filePath}:${lineNumber}`,
+        );
+        continue;
+      }
+
+      const depthMarketData: Record<string, unknown> = {};
+
+      fields.forEach((field, index) => {
+        depthMarketData[field] = record[index];
+      });
+
+      yield depthMarketData as DepthMarketDataField;
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+export const createMarketRecorder = (
+  rootPath: string,
+  options?: MarketRecorderOptions,
+) => new MarketRecorder(rootPath, options);
+
+export const createMarketDataReader = (
+  rootPath: string,
+  errorReceiver?: IErrorReceiver,
+) => new MarketDataReader(rootPath, errorReceiver);
@@ -0,0 +1,171 @@
+/*
+ * replay.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createReplayMarket } from "./replay.js";
+import type { ReplayMarket } from "./replay.js";
+
+type Quote = [tradingDay: string, updateTime: string, lastPrice: number];
+
+const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "hft-replay-"));
+
+const writeRecords = (instrumentId: string, quotes: Quote[]) => {
+  const filePath = path.join(rootPath, `${instrumentId}.jsonl`);
+
+  const records = quotes.map(([tradingDay, updateTime, lastPrice]) => ({
+    InstrumentID: instrumentId,
+    ExchangeID: "SHFE",
+    TradingDay: tradingDay,
+    ActionDay: tradingDay,
+    UpdateTime: updateTime,
+    UpdateMillisec: 0,
+    LastPrice: lastPrice,
+    Volume: 0,
+    Turnover: 0,
+    OpenInterest: 0,
+    BidPrice1: lastPrice,
+    BidVolume1: 1,
+    AskPrice1: lastPrice + 1,
+    AskVolume1: 1,
+  }));
+
+  fs.writeFileSync(
+    filePath,
+    records.map((record) => JSON.stringify(record)).join("\n"),
+  );
+
+  return filePath;
+};
+
+const replay = (
+  market: ReplayMarket,
+  symbols: string[],
+  onTick?: () => void,
+) => {
+  const ticks: string[] = [];
+  const errors: string[] = [];
+
+  const lifecycle = {
+    onOpen: () => {},
+    onClose: () => {},
+    onError: (_: string, message: string) => errors.push(message),
+  };
+
+  const closed = new Promise<void>((resolve) => {
+    lifecycle.onClose = resolve;
+  });
+
+  market.subscribe(symbols, {
+    onTick: (tick) => {
+      ticks.push(`${tick.symbol}@${tick.lastPrice}`);
+      onTick?.();
+    },
+  });
+
+  market.open(lifecycle);
+
+  return { ticks, errors, lifecycle, closed };
+};
+
+describe("ReplayMarket", () => {
+  after(() => fs.rmSync(rootPath, { recursive: true, force: true }));
+
+  it("merges files in time order with night sessions first", async () => {
+    const market = createReplayMarket([
+      writeRecords("rb2510", [
+        ["20250103", "21:00:00", 3000],
+        ["20250103", "09:00:00", 3002],
+      ]),
+      writeRecords("hc2510", [
+        ["20250103", "21:00:01", 3100],
+        ["20250103", "09:00:01", 3102],
+      ]),
+    ]);
+
+    const { ticks, closed } = replay(market, ["rb2510.SHFE", "hc2510.SHFE"]);
+
+    await closed;
+
+    assert.deepEqual(ticks, [
+      "rb2510.SHFE@3000",
+      "hc2510.SHFE@3100",
+      "rb2510.SHFE@3002",
+      "hc2510.SHFE@3102",
+    ]);
+    assert.equal(market.getLastTick("hc2510")?.lastPrice, 3102);
+  });
+
+  it("paces ticks by the replay speed", async () => {
+    const market = createReplayMarket(
+      [
+        writeRecords("ag2512", [
+          ["20250103", "09:00:00", 8000],
+          ["20250103", "09:00:01", 8001],
+        ]),
+      ],
+      { speed: 20 },
+    );
+
+    const start = Date.now();
+    const { ticks, closed } = replay(market, ["ag2512.SHFE"]);
+
+    await closed;
+
+    assert.equal(ticks.length, 2);
+    assert.ok(Date.now() - start >= 40);
+  });
+
+  it("stops in the middle of a replay", async () => {
+    const market = createReplayMarket(
+      [
+        writeRecords("cu2510", [
+          ["20250103", "09:00:00", 78000],
+          ["20250103", "09:00:01", 78010],
+        ]),
+      ],
+      { speed: 10 },
+    );
+
+    let closes = 0;
+
+    const { ticks, lifecycle, closed } = replay(market, ["cu2510.SHFE"], () =>
+      market.close(lifecycle),
+    );
+
+    const onClose = lifecycle.onClose;
+
+    lifecycle.onClose = () => {
+      closes += 1;
+      onClose();
+    };
+
+    await closed;
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    assert.deepEqual(ticks, ["cu2510.SHFE@78000"]);
+    assert.equal(closes, 1);
+  });
+
+  it("reports missing files as replay errors", async () => {
+    const market = createReplayMarket([path.join(rootPath, "missing.jsonl")]);
+    const { ticks, errors, closed } = replay(market, ["rb2510.SHFE"]);
+
+    await closed;
+
+    assert.deepEqual(ticks, []);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0]!, /ENOENT/);
+  });
+});
@@ -0,0 +1,273 @@
+/*
+ * replay.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type { DepthMarketDataField } from "@napi-ctp/types";
+import type { TickData } from "./typedef.js";
+import { parseSymbol, parseTime } from "./utils.js";
+import { calcTapeData } from "./tape.js";
+import { DefaultDepth, toTickData } from "./depth.js";
+import { readMarketData } from "./recorder.js";
+import type {
+  ILifecycleListener,
+  IMarketProvider,
+  ITickReceiver,
+} from "./interfaces.js";
+
+type ReplayCursor = {
+  records: AsyncGenerator<DepthMarketDataField>;
+  depthMarketData?: DepthMarketDataField;
+  timestamp: number;
+};
+
+export type ReplayOptions = {
+  speed?: number;
+  depth?: number;
+};
+
+const calcTimestamp = (depthMarketData: DepthMarketDataField) => {
+  const tradingDay = parseInt(depthMarketData.TradingDay);
+  const time = parseTime(depthMarketData.UpdateTime);
+
+  const year = Math.floor(tradingDay / 10000);
+  const month = Math.floor(tradingDay / 100) % 100;
+  const day = tradingDay % 100;
+
+  const hh = Math.floor(time / 10000);
+  const mm = Math.floor(time / 100) % 100;
+  const ss = time % 100;
+
+  // Night sessions open on the evening before their trading day.
+  const seconds = hh * 3600 + mm * 60 + ss - (hh >= 18 ? 86400 : 0);
+
+  return (
+    Date.UTC(year, month - 1, day) +
+    seconds * 1000 +
+    depthMarketData.UpdateMillisec
+  );
+};
+
+export class ReplayMarket implements IMarketProvider {
+  private running: boolean;
+  private tradingDay: number;
+  private readonly files: string[];
+  private readonly speed: number;
+  private readonly depth: number;
+  private readonly symbols: Map<string, string>;
+  private readonly lastTicks: Map<string, TickData>;
+  private readonly subscribers: Map<string, ITickReceiver[]>;
+
+  constructor(files: string[], options?: ReplayOptions) {
+    this.running = false;
+    this.tradingDay = 0;
+    this.files = files;
+    this.speed = options?.speed ?? 0;
+    this.depth = options?.depth ?? DefaultDepth;
+    this.symbols = new Map();
+    this.lastTicks = new Map();
+    this.subscribers = new Map();
+  }
+
+  getRecorder() {
+    return undefined;
+  }
+
+  getLastTick(instrumentId: string) {
+    return this.lastTicks.get(instrumentId);
+  }
+
+  open(lifecycle: ILifecycleListener) {
+    if (this.running) {
+      return true;
+    }
+
+    this.running = true;
+
+    this._replay(lifecycle).catch((error) =>
+      lifecycle.onError("replay-error", `${error}`),
+    );
+
+    return true;
+  }
+
+  close(lifecycle: ILifecycleListener) {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+
+    lifecycle.onClose();
+  }
+
+  subscribe(symbols: string[], receiver: ITickReceiver) {
+    symbols.forEach((symbol) => {
+      const [instrumentId] = parseSymbol(symbol);
+      const receivers = this.subscribers.get(instrumentId);
+
+      if (receivers) {
+        if (!receivers.includes(receiver)) {
+          receivers.push(receiver);
+        }
+      } else {
+        this.subscribers.set(instrumentId, [receiver]);
+        this.symbols.set(instrumentId, symbol);
+      }
+    });
+  }
+
+  unsubscribe(symbols: string[], receiver: ITickReceiver) {
+    symbols.forEach((symbol) => {
+      const [instrumentId] = parseSymbol(symbol);
+      const receivers = this.subscribers.get(instrumentId);
+
+      if (!receivers) {
+        return;
+      }
+
+      const index = receivers.indexOf(receiver);
+
+      if (index < 0) {
+        return;
+      }
+
+      receivers.splice(index, 1);
+
+      if (receivers.length === 0) {
+        this.subscribers.delete(instrumentId);
+        this.symbols.delete(instrumentId);
+      }
+    });
+  }
+
+  private _sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+      setTimeout(resolve, ms);
+    });
+  }
+
+  private async _replay(lifecycle: ILifecycleListener) {
+    const cursors = this.files.map((file) =>
+      this._createCursor(file, lifecycle),
+    );
+
+    try {
+      await Promise.all(cursors.map((cursor) => this._advance(cursor)));
+
+      lifecycle.onOpen();
+
+      let last: DepthMarketDataField | undefined;
+      let timestamp = 0;
+
+      while (this.running) {
+        let next: ReplayCursor | undefined;
+
+        cursors.forEach((cursor) => {
+          if (!cursor.depthMarketData) {
+            return;
+          }
+
+          if (!next || cursor.timestamp < next.timestamp) {
+            next = cursor;
+          }
+        });
+
+        if (!next) {
+          break;
+        }
+
+        const cursor: ReplayCursor = next;
+        const depthMarketData = cursor.depthMarketData!;
+
+        if (
+          this.speed > 0 &&
+          last &&
+          last.TradingDay === depthMarketData.TradingDay
+        ) {
+          const ms = (cursor.timestamp - timestamp) / this.speed;
+
+          if (ms > 0) {
+            await this._sleep(ms);
+          }
+
+          if (!this.running) {
+            break;
+          }
+        }
+
+        last = depthMarketData;
+        timestamp = cursor.timestamp;
+
+        this._emit(depthMarketData);
+
+        await this._advance(cursor);
+      }
+    } catch (error) {
+      lifecycle.onError("replay-error", `${error}`);
+    } finally {
+      await Promise.allSettled(
+        cursors.map((cursor) => cursor.records.return(undefined)),
+      );
+
+      this.close(lifecycle);
+    }
+  }
+
+  private _createCursor(file: string, lifecycle: ILifecycleListener) {
+    const cursor: ReplayCursor = {
+      records: readMarketData(file, lifecycle),
+      timestamp: 0,
+    };
+
+    return cursor;
+  }
+
+  private async _advance(cursor: ReplayCursor) {
+    const result = await cursor.records.next();
+
+    if (result.done) {
+      cursor.depthMarketData = undefined;
+      return;
+    }
+
+    cursor.depthMarketData = result.value;
+    cursor.timestamp = calcTimestamp(result.value);
+  }
+
+  private _emit(depthMarketData: DepthMarketDataField) {
+    const tradingDay = parseInt(depthMarketData.TradingDay);
+
+    if (this.tradingDay !== tradingDay) {
+      this.lastTicks.clear();
+      this.tradingDay = tradingDay;
+    }
+
+    const instrumentId = depthMarketData.InstrumentID;
+    const symbol = this.symbols.get(instrumentId);
+
+    if (!symbol) {
+      return;
+    }
+
+    const tick = toTickData(symbol, depthMarketData, this.depth);
+    const lastTick = this.lastTicks.get(instrumentId);
+    const receivers = this.subscribers.get(instrumentId);
+
+    this.lastTicks.set(instrumentId, tick);
+
+    if (receivers && receivers.length > 0) {
+      const tape = calcTapeData(tick, lastTick);
+      receivers.forEach((receiver) => receiver.onTick(tick, tape));
+    }
+  }
+}
+
+export const createReplayMarket = (files: string[], options?: ReplayOptions) =>
+  new ReplayMarket(files, options);
@@ -0,0 +1,171 @@
+/*
+ * resync.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createPositionInfo, toPositionData } from "./position.js";
+import {
+  diffResyncOrders,
+  diffResyncPositions,
+  settleResyncRequests,
+  takeResyncSnapshot,
+} from "./resync.js";
+import type { CancelOrderRequest, PlaceOrderRequest } from "./resync.js";
+import { createOrder } from "./testing.js";
+import type { TradeData } from "./typedef.js";
+
+const createTrade = (id: string, volume: number): TradeData => ({
+  id: id,
+  date: 20250102,
+  time: 93000,
+  price: 3000,
+  volume: volume,
+});
+
+const createPosition = (symbol: string, long: number) => {
+  const position = createPositionInfo(symbol);
+
+  position.today.long.position = long;
+
+  return toPositionData(position);
+};
+
+describe("diffResyncOrders", () => {
+  it("reports each order once with the trades missed while disconnected", () => {
+    const partial = createOrder({
+      status: "partially-filled",
+      traded: 1,
+      trades: [createTrade("t0", 1)],
+    });
+
+    const resting = createOrder({ id: "SHFE:3", receiptId: "0:0:3" });
+    const snapshot = takeResyncSnapshot([partial, resting], [], [], []);
+
+    const changes = diffResyncOrders(snapshot, [
+      createOrder({
+        status: "filled",
+        traded: 2,
+        trades: [createTrade("t0", 1), createTrade("t1", 1)],
+      }),
+      createOrder({ id: "SHFE:2", receiptId: "0:0:2", status: "canceled" }),
+      resting,
+      createOrder({ id: "SHFE:4", receiptId: "0:0:4", status: "rejected" }),
+    ]);
+
+    assert.deepEqual(
+      changes.map((change) => [
+        change.order.id,
+        change.entrusted,
+        change.trades.map((trade) => trade.id),
+        change.statusChanged,
+      ]),
+      [
+        ["SHFE:1", false, ["t1"], true],
+        ["SHFE:2", true, [], true],
+        ["SHFE:4", false, [], true],
+      ],
+    );
+  });
+
+  it("reports new trades of an order whose status did not change", () => {
+    const snapshot = takeResyncSnapshot(
+      [createOrder({ status: "partially-filled" })],
+      [],
+      [],
+      [],
+    );
+
+    const [change] = diffResyncOrders(snapshot, [
+      createOrder({
+        status: "partially-filled",
+        traded: 1,
+        trades: [createTrade("t1", 1)],
+      }),
+    ]);
+
+    assert.deepEqual(change?.trades, [createTrade("t1", 1)]);
+    assert.equal(change?.statusChanged, false);
+  });
+});
+
+describe("diffResyncPositions", () => {
+  it("reports changed and emptied positions", () => {
+    const snapshot = takeResyncSnapshot(
+      [],
+      [
+        createPosition("rb2510.SHFE", 1),
+        createPosition("hc2510.SHFE", 1),
+        createPosition("ag2512.SHFE", 1),
+      ],
+      [],
+      [],
+    );
+
+    const positions = diffResyncPositions(snapshot, [
+      createPosition("rb2510.SHFE", 2),
+      createPosition("ag2512.SHFE", 1),
+    ]);
+
+    assert.deepEqual(positions, [
+      createPosition("rb2510.SHFE", 2),
+      createPosition("hc2510.SHFE", 0),
+    ]);
+  });
+});
+
+describe("settleResyncRequests", () => {
+  it("fails requests lost in the disconnect and keeps the rest", () => {
+    const errors: string[] = [];
+
+    const placeRequest = (receiptId: string): PlaceOrderRequest => ({
+      receiptId: receiptId,
+      receiver: {
+        onPlaceOrderSent: () => {},
+        onPlaceOrderError: (reason) =>
+          errors.push(`place:${receiptId}:${reason}`),
+      },
+    });
+
+    const cancelRequest = (orderId: string): CancelOrderRequest => ({
+      orderId: orderId,
+      receiver: {
+        onCancelOrderSent: () => {},
+        onCancelOrderError: (reason) =>
+          errors.push(`cancel:${orderId}:${reason}`),
+      },
+    });
+
+    const placeOrders = new Map([
+      [1, placeRequest("0:0:1")],
+      [2, placeRequest("0:0:2")],
+    ]);
+
+    const cancelOrders = new Map([[5, cancelRequest("SHFE:5")]]);
+    const snapshot = takeResyncSnapshot([], [], [1, 2], [5]);
+
+    placeOrders.set(3, placeRequest("0:0:3"));
+    cancelOrders.set(6, cancelRequest("SHFE:6"));
+
+    settleResyncRequests(
+      snapshot,
+      [createOrder({ receiptId: "0:0:1" })],
+      placeOrders,
+      cancelOrders,
+    );
+
+    assert.deepEqual(errors, [
+      "place:0:0:2:Disconnected",
+      "cancel:SHFE:5:Disconnected",
+    ]);
+    assert.deepEqual(Array.from(placeOrders.keys()), [3]);
+    assert.deepEqual(Array.from(cancelOrders.keys()), [6]);
+  });
+});
@@ -0,0 +1,158 @@
+/*
+ * resync.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  ICancelOrderResultReceiver,
+  IPlaceOrderResultReceiver,
+} from "./interfaces.js";
+import type { OrderData, PositionData, TradeData } from "./typedef.js";
+import { createPositionInfo, toPositionData } from "./position.js";
+
+export type PlaceOrderRequest = {
+  receiptId: string;
+  receiver: IPlaceOrderResultReceiver;
+};
+
+export type CancelOrderRequest = {
+  orderId: string;
+  receiver: ICancelOrderResultReceiver;
+};
+
+export type ResyncSnapshot = Readonly<{
+  orders: Map<string, OrderData>;
+  tradeIds: Set<string>;
+  positions: Map<string, PositionData>;
+  placeRequests: number[];
+  cancelRequests: number[];
+}>;
+
+export type ResyncOrder = Readonly<{
+  order: OrderData;
+  entrusted: boolean;
+  trades: TradeData[];
+  statusChanged: boolean;
+}>;
+
+const toTradeKey = (order: OrderData, trade: TradeData) =>
+  `${order.id}:${trade.id}`;
+
+const isSamePosition = (a: PositionData, b: PositionData) =>
+  a.today.long.position === b.today.long.position &&
+  a.today.short.position === b.today.short.position &&
+  a.history.long.position === b.history.long.position &&
+  a.history.short.position === b.history.short.position;
+
+export const takeResyncSnapshot = (
+  orders: OrderData[],
+  positions: PositionData[],
+  placeRequests: number[],
+  cancelRequests: number[],
+): ResyncSnapshot => {
+  const tradeIds = new Set<string>();
+
+  orders.forEach((order) =>
+    order.trades.forEach((trade) => tradeIds.add(toTradeKey(order, trade))),
+  );
+
+  return Object.freeze({
+    orders: new Map(orders.map((order) => [order.id, order])),
+    tradeIds: tradeIds,
+    positions: new Map(
+      positions.map((position) => [position.symbol, position]),
+    ),
+    placeRequests: placeRequests,
+    cancelRequests: cancelRequests,
+  });
+};
+
+export const diffResyncOrders = (
+  snapshot: ResyncSnapshot,
+  orders: OrderData[],
+) => {
+  const changes: ResyncOrder[] = [];
+
+  orders.forEach((order) => {
+    const previous = snapshot.orders.get(order.id);
+
+    const trades = order.trades.filter(
+      (trade) => !snapshot.tradeIds.has(toTradeKey(order, trade)),
+    );
+
+    if (previous && previous.status === order.status && trades.length === 0) {
+      return;
+    }
+
+    changes.push(
+      Object.freeze({
+        order: order,
+        entrusted: !previous && order.status !== "rejected",
+        trades: trades,
+        statusChanged: previous?.status !== order.status,
+      }),
+    );
+  });
+
+  return changes;
+};
+
+export const diffResyncPositions = (
+  snapshot: ResyncSnapshot,
+  positions: PositionData[],
+) => {
+  const symbols = new Set(positions.map((position) => position.symbol));
+
+  const changes = positions.filter((position) => {
+    const previous = snapshot.positions.get(position.symbol);
+    return !previous || !isSamePosition(previous, position);
+  });
+
+  snapshot.positions.forEach((_, symbol) => {
+    if (!symbols.has(symbol)) {
+      changes.push(toPositionData(createPositionInfo(symbol)));
+    }
+  });
+
+  return changes;
+};
+
+export const settleResyncRequests = (
+  snapshot: ResyncSnapshot,
+  orders: OrderData[],
+  placeOrders: Map<number, PlaceOrderRequest>,
+  cancelOrders: Map<number, CancelOrderRequest>,
+) => {
+  const receiptIds = new Set(orders.map((order) => order.receiptId));
+
+  snapshot.placeRequests.forEach((requestId) => {
+    const request = placeOrders.get(requestId);
+
+    if (!request) {
+      return;
+    }
+
+    placeOrders.delete(requestId);
+
+    if (!receiptIds.has(request.receiptId)) {
+      request.receiver.onPlaceOrderError("Disconnected");
+    }
+  });
+
+  snapshot.cancelRequests.forEach((requestId) => {
+    const request = cancelOrders.get(requestId);
+
+    if (!request) {
+      return;
+    }
+
+    cancelOrders.delete(requestId);
+    request.receiver.onCancelOrderError("Disconnected");
+  });
+};
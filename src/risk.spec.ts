@@ -0,0 +1,193 @@
+/*
+ * risk.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createCloseVolumeRiskManager,
+  createComplianceRiskManager,
+  createMaxOrderVolumeRiskManager,
+  createMaxPositionRiskManager,
+  createSelfTradeRiskManager,
+} from "./risk.js";
+import {
+  TestInstrument,
+  TestSymbol,
+  createOrder,
+  createStrategy,
+} from "./testing.js";
+import type { IQueryProvider, PlaceOrderContext } from "./interfaces.js";
+import type { OrderStatistic, PositionData } from "./typedef.js";
+
+const position: PositionData = {
+  symbol: TestSymbol,
+  today: {
+    long: { position: 2, frozen: 1 },
+    short: { position: 0, frozen: 0 },
+  },
+  history: {
+    long: { position: 3, frozen: 0 },
+    short: { position: 1, frozen: 0 },
+  },
+  pending: { long: 1, short: 0 },
+};
+
+const restingOrder = createOrder({
+  side: "short",
+  price: 3010,
+  volume: 1,
+});
+
+const context: PlaceOrderContext = {
+  strategy: createStrategy(),
+  instrument: TestInstrument,
+  position: position,
+  orders: [restingOrder],
+};
+
+describe("MaxOrderVolumeRiskManager", () => {
+  it("applies the tighter of the instrument and configured limits", () => {
+    const riskMgr = createMaxOrderVolumeRiskManager({ [TestSymbol]: 10 });
+
+    assert.equal(
+      riskMgr.onPlaceOrder(TestSymbol, "open", "long", 10, 0, "limit", context),
+      true,
+    );
+    assert.equal(
+      riskMgr.onPlaceOrder(TestSymbol, "open", "long", 11, 0, "limit", context),
+      `Order Volume Exceeded: ${TestSymbol} 11 > 10`,
+    );
+  });
+});
+
+describe("MaxPositionRiskManager", () => {
+  it("counts pending opens in the net position", () => {
+    const riskMgr = createMaxPositionRiskManager(6);
+
+    assert.equal(
+      riskMgr.onPlaceOrder(TestSymbol, "open", "long", 1, 0, "limit", context),
+      true,
+    );
+    assert.equal(
+      riskMgr.onPlaceOrder(TestSymbol, "open", "long", 2, 0, "limit", context),
+      `Net Position Exceeded: ${TestSymbol} long 7 > 6`,
+    );
+  });
+});
+
+describe("CloseVolumeRiskManager", () => {
+  it("checks today and history closable volumes separately", () => {
+    const riskMgr = createCloseVolumeRiskManager();
+    const place = (offset: "close" | "close-today", volume: number) =>
+      riskMgr.onPlaceOrder(
+        TestSymbol,
+        offset,
+        "short",
+        volume,
+        0,
+        "limit",
+        context,
+      );
+
+    assert.equal(place("close-today", 1), true);
+    assert.equal(
+      place("close-today", 2),
+      `Close Volume Exceeded: ${TestSymbol} close-today 2 > 1`,
+    );
+    assert.equal(place("close", 3), true);
+  });
+});
+
+describe("SelfTradeRiskManager", () => {
+  it("rejects orders crossing our own resting orders", () => {
+    const riskMgr = createSelfTradeRiskManager();
+
+    assert.equal(
+      riskMgr.onPlaceOrder(
+        TestSymbol,
+        "open",
+        "long",
+        1,
+        3009,
+        "limit",
+        context,
+      ),
+      true,
+    );
+    assert.equal(
+      riskMgr.onPlaceOrder(TestSymbol, "open", "long", 1, 0, "market", context),
+      `Self Trade: ${TestSymbol} long 0 crosses order SHFE:1 at 3010`,
+    );
+  });
+});
+
+describe("ComplianceRiskManager", () => {
+  const createStatistic = (
+    symbol: string,
+    places: number,
+    cancels: number,
+  ): OrderStatistic => ({
+    symbol: symbol,
+    places: places,
+    entrusts: places,
+    filleds: 0,
+    cancels: cancels,
+    rejects: 0,
+  });
+
+  const statistics = [
+    createStatistic(TestSymbol, 10, 4),
+    createStatistic("ag2512.SHFE", 5, 0),
+  ];
+
+  const query: Pick<
+    IQueryProvider,
+    "getOrderStatistics" | "getOrderStatistic"
+  > = {
+    getOrderStatistics: () => statistics,
+    getOrderStatistic: (symbol) =>
+      statistics.find((statistic) => statistic.symbol === symbol) ??
+      createStatistic(symbol, 0, 0),
+  };
+
+  it("rejects orders over the symbol or account count", () => {
+    const riskMgr = createComplianceRiskManager(query as IQueryProvider, {
+      symbolLimits: { orders: 10 },
+      accountLimits: { orders: 20 },
+    });
+
+    assert.equal(
+      riskMgr.onPlaceOrder(TestSymbol),
+      `Order Count Exceeded: ${TestSymbol} 11 > 10`,
+    );
+    assert.equal(riskMgr.onPlaceOrder("ag2512.SHFE"), true);
+  });
+
+  it("warns before the cancel ratio is exceeded", () => {
+    const riskMgr = createComplianceRiskManager(query as IQueryProvider, {
+      symbolLimits: { cancelRatio: 0.6 },
+      symbolWarnings: { cancelRatio: 0.4 },
+    });
+
+    assert.deepEqual(riskMgr.onCancelOrder(restingOrder), {
+      warning: `Cancel Ratio Exceeded: ${TestSymbol} 0.50 > 0.4`,
+    });
+  });
+
+  it("ignores the cancel ratio below the minimum order count", () => {
+    const riskMgr = createComplianceRiskManager(query as IQueryProvider, {
+      symbolLimits: { cancelRatio: 0.1 },
+      ratioMinOrders: 20,
+    });
+
+    assert.equal(riskMgr.onCancelOrder(restingOrder), true);
+  });
+});
@@ -0,0 +1,414 @@
+/*
+ * risk.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  OffsetType,
+  OrderData,
+  OrderFlag,
+  OrderStatistic,
+  SideType,
+} from "./typedef.js";
+import { parseSymbol } from "./utils.js";
+import { calcClosable } from "./position.js";
+import type {
+  ICancelOrderRiskManager,
+  IPlaceOrderRiskManager,
+  IQueryProvider,
+  PlaceOrderContext,
+  RiskResult,
+} from "./interfaces.js";
+
+export type RiskLimits = number | Readonly<Record<string, number>>;
+
+const getLimit = (limits: RiskLimits, symbol: string) =>
+  typeof limits === "number" ? limits : limits[symbol];
+
+export type ComplianceLimits = Readonly<{
+  orders?: number;
+  cancels?: number;
+  cancelRatio?: number;
+}>;
+
+export type ComplianceOptions = Readonly<{
+  symbolLimits?: ComplianceLimits;
+  symbolWarnings?: ComplianceLimits;
+  accountLimits?: ComplianceLimits;
+  accountWarnings?: ComplianceLimits;
+  ratioMinOrders?: number;
+}>;
+
+type ComplianceAction = "place" | "cancel";
+
+type ComplianceCounter = Readonly<{
+  orders: number;
+  cancels: number;
+}>;
+
+export class MaxOrderVolumeRiskManager implements IPlaceOrderRiskManager {
+  private readonly limits?: RiskLimits;
+
+  constructor(limits?: RiskLimits) {
+    if (limits !== undefined) {
+      this.limits = limits;
+    }
+  }
+
+  onPlaceOrder(
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    context: PlaceOrderContext,
+  ) {
+    const instrument = context.instrument;
+
+    if (instrument && instrument.minLimitOrderVolume > volume) {
+      return `Order Volume Too Small: ${symbol} ${volume} < ${instrument.minLimitOrderVolume}`;
+    }
+
+    const limits: number[] = [];
+
+    if (instrument && instrument.maxLimitOrderVolume > 0) {
+      limits.push(instrument.maxLimitOrderVolume);
+    }
+
+    if (this.limits !== undefined) {
+      const limit = getLimit(this.limits, symbol);
+
+      if (limit !== undefined) {
+        limits.push(limit);
+      }
+    }
+
+    if (limits.length === 0) {
+      return true;
+    }
+
+    const maxVolume = Math.min(...limits);
+
+    if (volume > maxVolume) {
+      return `Order Volume Exceeded: ${symbol} ${volume} > ${maxVolume}`;
+    }
+
+    return true;
+  }
+}
+
+export class MaxPositionRiskManager implements IPlaceOrderRiskManager {
+  private readonly limits: RiskLimits;
+
+  constructor(limits: RiskLimits) {
+    this.limits = limits;
+  }
+
+  onPlaceOrder(
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    context: PlaceOrderContext,
+  ) {
+    if (offset !== "open") {
+      return true;
+    }
+
+    const maxPosition = getLimit(this.limits, symbol);
+
+    if (maxPosition === undefined) {
+      return true;
+    }
+
+    const position = context.position;
+
+    const long = position
+      ? position.today.long.position +
+        position.history.long.position +
+        position.pending.long
+      : 0;
+
+    const short = position
+      ? position.today.short.position +
+        position.history.short.position +
+        position.pending.short
+      : 0;
+
+    const netPosition =
+      side === "long" ? long - short + volume : short - long + volume;
+
+    if (netPosition > maxPosition) {
+      return `Net Position Exceeded: ${symbol} ${side} ${netPosition} > ${maxPosition}`;
+    }
+
+    return true;
+  }
+}
+
+export class CloseVolumeRiskManager implements IPlaceOrderRiskManager {
+  onPlaceOrder(
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    context: PlaceOrderContext,
+  ) {
+    if (offset === "open") {
+      return true;
+    }
+
+    const [, exchangeId] = parseSymbol(symbol);
+
+    const closable = context.position
+      ? calcClosable(context.position, side, offset, exchangeId)
+      : 0;
+
+    if (volume > closable) {
+      return `Close Volume Exceeded: ${symbol} ${offset} ${volume} > ${closable}`;
+    }
+
+    return true;
+  }
+}
+
+export class PriceRangeRiskManager implements IPlaceOrderRiskManager {
+  onPlaceOrder(
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    context: PlaceOrderContext,
+  ) {
+    if (flag !== "limit" || !context.tick) {
+      return true;
+    }
+
+    const { limits, bandings } = context.tick;
+
+    if (price > limits.upper || price < limits.lower) {
+      return `Price Out Of Limits: ${symbol} ${price} not in [${limits.lower}, ${limits.upper}]`;
+    }
+
+    if (
+      bandings.lower > 0 &&
+      bandings.upper >= bandings.lower &&
+      (price > bandings.upper || price < bandings.lower)
+    ) {
+      return `Price Out Of Bandings: ${symbol} ${price} not in [${bandings.lower}, ${bandings.upper}]`;
+    }
+
+    return true;
+  }
+}
+
+export class OrderRateRiskManager implements IPlaceOrderRiskManager {
+  private readonly maxOrders: number;
+  private readonly interval: number;
+  private readonly timestamps: number[];
+
+  constructor(maxOrders: number, interval: number = 1000) {
+    this.maxOrders = maxOrders;
+    this.interval = interval;
+    this.timestamps = [];
+  }
+
+  onPlaceOrder() {
+    const now = Date.now();
+
+    while (
+      this.timestamps.length > 0 &&
+      now - this.timestamps[0]! >= this.interval
+    ) {
+      this.timestamps.shift();
+    }
+
+    if (this.timestamps.length >= this.maxOrders) {
+      return `Order Rate Exceeded: ${this.maxOrders} orders per ${this.interval}ms`;
+    }
+
+    return true;
+  }
+
+  onPlaceOrderAccepted() {
+    this.timestamps.push(Date.now());
+  }
+}
+
+export class SelfTradeRiskManager implements IPlaceOrderRiskManager {
+  onPlaceOrder(
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    context: PlaceOrderContext,
+  ) {
+    const crossed = context.orders.find(
+      (order) =>
+        order.symbol === symbol &&
+        order.side !== side &&
+        (flag === "market" ||
+          (side === "long" ? price >= order.price : price <= order.price)),
+    );
+
+    if (crossed) {
+      return `Self Trade: ${symbol} ${side} ${price} crosses order ${crossed.id} at ${crossed.price}`;
+    }
+
+    return true;
+  }
+}
+
+export class ComplianceRiskManager
+  implements IPlaceOrderRiskManager, ICancelOrderRiskManager
+{
+  private readonly query: IQueryProvider;
+  private readonly options: ComplianceOptions;
+
+  constructor(query: IQueryProvider, options: ComplianceOptions) {
+    this.query = query;
+    this.options = options;
+  }
+
+  onPlaceOrder(symbol: string): RiskResult {
+    const [symbolCounter, accountCounter] = this._getCounters(symbol);
+
+    const symbolNext = { ...symbolCounter, orders: symbolCounter.orders + 1 };
+    const accountNext = {
+      ...accountCounter,
+      orders: accountCounter.orders + 1,
+    };
+
+    return this._check(symbol, symbolNext, accountNext, "place");
+  }
+
+  onCancelOrder(order: OrderData): RiskResult {
+    const [symbolCounter, accountCounter] = this._getCounters(order.symbol);
+
+    const symbolNext = { ...symbolCounter, cancels: symbolCounter.cancels + 1 };
+    const accountNext = {
+      ...accountCounter,
+      cancels: accountCounter.cancels + 1,
+    };
+
+    return this._check(order.symbol, symbolNext, accountNext, "cancel");
+  }
+
+  private _getCounters(symbol: string): [ComplianceCounter, ComplianceCounter] {
+    const toCounter = (statistic: OrderStatistic) => ({
+      orders: statistic.places,
+      cancels: statistic.cancels,
+    });
+
+    const account = this.query
+      .getOrderStatistics()
+      .map(toCounter)
+      .reduce(
+        (total, counter) => ({
+          orders: total.orders + counter.orders,
+          cancels: total.cancels + counter.cancels,
+        }),
+        { orders: 0, cancels: 0 },
+      );
+
+    return [toCounter(this.query.getOrderStatistic(symbol)), account];
+  }
+
+  private _check(
+    symbol: string,
+    symbolCounter: ComplianceCounter,
+    accountCounter: ComplianceCounter,
+    action: ComplianceAction,
+  ): RiskResult {
+    const { symbolLimits, symbolWarnings, accountLimits, accountWarnings } =
+      this.options;
+
+    const violation =
+      this._violation(symbol, symbolCounter, symbolLimits, action) ??
+      this._violation("Account", accountCounter, accountLimits, action);
+
+    if (violation) {
+      return violation;
+    }
+
+    const warning =
+      this._violation(symbol, symbolCounter, symbolWarnings, action) ??
+      this._violation("Account", accountCounter, accountWarnings, action);
+
+    return warning ? { warning } : true;
+  }
+
+  private _violation(
+    scope: string,
+    counter: ComplianceCounter,
+    limits: ComplianceLimits | undefined,
+    action: ComplianceAction,
+  ) {
+    if (!limits) {
+      return undefined;
+    }
+
+    if (action === "place") {
+      if (limits.orders !== undefined && counter.orders > limits.orders) {
+        return `Order Count Exceeded: ${scope} ${counter.orders} > ${limits.orders}`;
+      }
+
+      return undefined;
+    }
+
+    if (limits.cancels !== undefined && counter.cancels > limits.cancels) {
+      return `Cancel Count Exceeded: ${scope} ${counter.cancels} > ${limits.cancels}`;
+    }
+
+    if (
+      limits.cancelRatio !== undefined &&
+      counter.orders > 0 &&
+      counter.orders >= (this.options.ratioMinOrders ?? 0)
+    ) {
+      const ratio = counter.cancels / counter.orders;
+
+      if (ratio > limits.cancelRatio) {
+        return `Cancel Ratio Exceeded: ${scope} ${ratio.toFixed(2)} > ${limits.cancelRatio}`;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+export const createMaxOrderVolumeRiskManager = (limits?: RiskLimits) =>
+  new MaxOrderVolumeRiskManager(limits);
+
+export const createMaxPositionRiskManager = (limits: RiskLimits) =>
+  new MaxPositionRiskManager(limits);
+
+export const createCloseVolumeRiskManager = () => new CloseVolumeRiskManager();
+
+export const createPriceRangeRiskManager = () => new PriceRangeRiskManager();
+
+export const createOrderRateRiskManager = (
+  maxOrders: number,
+  interval?: number,
+) => new OrderRateRiskManager(maxOrders, interval);
+
+export const createSelfTradeRiskManager = () => new SelfTradeRiskManager();
+
+export const createComplianceRiskManager = (
+  query: IQueryProvider,
+  options: ComplianceOptions,
+) => new ComplianceRiskManager(query, options);
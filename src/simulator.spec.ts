@@ -0,0 +1,141 @@
+/*
+ * simulator.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSimTrader } from "./simulator.js";
+import {
+  EmptyTape,
+  TestInstrument,
+  TestSymbol,
+  createTick,
+  flush,
+} from "./testing.js";
+import type {
+  OrderData,
+  OrderFlag,
+  OrderOptions,
+  TapeSide,
+} from "./typedef.js";
+
+const createBookTick = (asks: TapeSide, bids: TapeSide) =>
+  createTick(3000, { orderBook: { asks, bids } });
+
+const createSession = () => {
+  const trader = createSimTrader([TestInstrument], { tradingDay: 20250102 });
+  const entrusts: OrderData[] = [];
+  const trades: string[] = [];
+  const cancels: OrderData[] = [];
+
+  trader.addOrderReceiver({
+    onEntrust: (order) => entrusts.push(order),
+    onTrade: (order, trade) =>
+      trades.push(`${order.receiptId}:${trade.volume}`),
+    onCancel: (order) => cancels.push(order),
+    onReject: () => {},
+  });
+
+  trader.open({ onOpen: () => {}, onClose: () => {}, onError: () => {} });
+
+  const place = (
+    volume: number,
+    price: number,
+    flag: OrderFlag = "limit",
+    options?: OrderOptions,
+  ) =>
+    trader.placeOrder(
+      TestSymbol,
+      "open",
+      "long",
+      volume,
+      price,
+      flag,
+      { onPlaceOrderSent: () => {}, onPlaceOrderError: () => {} },
+      options,
+    );
+
+  return { trader, entrusts, trades, cancels, place };
+};
+
+describe("SimTrader", () => {
+  it("shares one level of liquidity between orders on the same tick", async () => {
+    const session = createSession();
+    const tick = createBookTick(
+      { price: [3001], volume: [3] },
+      { price: [3000], volume: [5] },
+    );
+
+    session.trader.onTick(tick, EmptyTape);
+    session.place(2, 3001);
+    session.place(2, 3001);
+    await flush();
+
+    session.trader.onTick(tick, EmptyTape);
+
+    assert.deepEqual(session.trades, ["0:0:1:2", "0:0:2:1"]);
+  });
+
+  it("keeps the requested order flag", async () => {
+    const session = createSession();
+
+    session.trader.onTick(
+      createBookTick(
+        { price: [3001], volume: [3] },
+        { price: [3000], volume: [5] },
+      ),
+      EmptyTape,
+    );
+
+    session.place(1, 0, "market");
+    await flush();
+
+    assert.equal(session.entrusts[0]?.flag, "market");
+    assert.equal(session.entrusts[0]?.price, 3300);
+  });
+
+  it("cancels the rest of an ioc order", async () => {
+    const session = createSession();
+    const tick = createBookTick(
+      { price: [3001, 3002], volume: [2, 3] },
+      { price: [3000], volume: [10] },
+    );
+
+    session.trader.onTick(tick, EmptyTape);
+    session.place(4, 3001, "limit", { timeInForce: "ioc" });
+    await flush();
+
+    session.trader.onTick({ ...tick }, EmptyTape);
+
+    assert.deepEqual(session.trades, ["0:0:1:2"]);
+    assert.equal(session.cancels[0]?.status, "canceled");
+    assert.equal(session.cancels[0]?.traded, 2);
+  });
+
+  it("cancels a fill-or-kill order without enough volume", async () => {
+    const session = createSession();
+    const tick = createBookTick(
+      { price: [3001, 3002], volume: [2, 3] },
+      { price: [3000], volume: [10] },
+    );
+
+    session.trader.onTick(tick, EmptyTape);
+    session.place(4, 3001, "limit", {
+      timeInForce: "ioc",
+      volumeCondition: "all",
+    });
+    await flush();
+
+    session.trader.onTick({ ...tick }, EmptyTape);
+
+    assert.deepEqual(session.trades, []);
+    assert.equal(session.cancels[0]?.traded, 0);
+  });
+});
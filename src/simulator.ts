@@ -0,0 +1,1037 @@
+/*
+ * simulator.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { isValidOrderOptions, isValidPrice, parseSymbol } from "./utils.js";
+import { QueueEstimator, createQueueEstimator } from "./queue.js";
+import {
+  type PositionInfo,
+  calcClosable,
+  calcPosition,
+  createPositionInfo,
+  freezePosition,
+  recordPending,
+  recoverPending,
+  toPositionData,
+  unfreezePosition,
+} from "./position.js";
+import type {
+  CommissionRate,
+  InstrumentData,
+  MarginRate,
+  OffsetType,
+  OrderData,
+  OrderFlag,
+  OrderOptions,
+  OrderStatistic,
+  PositionData,
+  PositionDetail,
+  ProductType,
+  RatioAmount,
+  SideType,
+  TapeData,
+  TapeSide,
+  TickData,
+  TradeData,
+  TradingAccount,
+  Writeable,
+} from "./typedef.js";
+import type {
+  ICancelOrderResultReceiver,
+  ICommissionRateReceiver,
+  IInstrumentReceiver,
+  IInstrumentsReceiver,
+  ILifecycleListener,
+  IMarginRateReceiver,
+  IOrderReceiver,
+  IOrdersReceiver,
+  IPlaceOrderResultReceiver,
+  IPositionDetailsReceiver,
+  IPositionReceiver,
+  IPositionsReceiver,
+  ITickReceiver,
+  ITickSubscriber,
+  ITraderProvider,
+  ITradingAccountsReceiver,
+} from "./interfaces.js";
+
+type OrderInfo = Writeable<OrderData>;
+type OrderStat = Writeable<OrderStatistic>;
+type PositionDetailInfo = Writeable<PositionDetail>;
+
+type SimOrder = {
+  order: OrderInfo;
+  instrument: InstrumentData;
+  frozenMargin: number;
+  frozenCommission: number;
+  minVolume: number;
+  resting: boolean;
+};
+
+type TickLiquidity = {
+  tick: TickData;
+  consumed: Map<string, number>;
+};
+
+export type SimTraderOptions = {
+  accountId?: string;
+  tradingDay?: number;
+  initialCash?: number;
+  commissionRates?: CommissionRate[];
+  marginRates?: MarginRate[];
+  positions?: PositionDetail[];
+  market?: ITickSubscriber;
+  queuePosition?: boolean;
+};
+
+export class SimTrader implements ITraderProvider, ITickReceiver {
+  private opened: boolean;
+  private tradingDay: number;
+  private orderRef: number;
+  private tradeRef: number;
+  private preBalance: number;
+  private preMargin: number;
+  private closeProfit: number;
+  private commission: number;
+  private readonly accountId: string;
+  private readonly market?: ITickSubscriber;
+  private readonly queueEstimator?: QueueEstimator;
+  private readonly receivers: IOrderReceiver[];
+  private readonly instruments: Map<string, InstrumentData>;
+  private readonly commRates: Map<string, CommissionRate>;
+  private readonly marginRates: Map<string, MarginRate>;
+  private readonly positions: Map<string, PositionInfo>;
+  private readonly positionDetails: PositionDetailInfo[];
+  private readonly orders: Map<string, SimOrder>;
+  private readonly liveOrders: Map<string, SimOrder>;
+  private readonly lastTicks: Map<string, TickData>;
+  private readonly liquidities: Map<string, TickLiquidity>;
+  private readonly watchings: Set<string>;
+  private readonly orderStatistics: Map<string, OrderStat>;
+
+  constructor(instruments: InstrumentData[], options?: SimTraderOptions) {
+    this.opened = false;
+    this.tradingDay = options?.tradingDay ?? 0;
+    this.orderRef = 0;
+    this.tradeRef = 0;
+    this.preBalance = options?.initialCash ?? 1000000;
+    this.preMargin = 0;
+    this.closeProfit = 0;
+    this.commission = 0;
+    this.accountId = options?.accountId ?? "simulator";
+    this.receivers = [];
+    this.instruments = new Map();
+    this.commRates = new Map();
+    this.marginRates = new Map();
+    this.positions = new Map();
+    this.positionDetails = [];
+    this.orders = new Map();
+    this.liveOrders = new Map();
+    this.lastTicks = new Map();
+    this.liquidities = new Map();
+    this.watchings = new Set();
+    this.orderStatistics = new Map();
+
+    if (options?.market) {
+      this.market = options.market;
+    }
+
+    if (options?.queuePosition) {
+      this.queueEstimator = createQueueEstimator();
+      this.receivers.push(this.queueEstimator);
+    }
+
+    instruments.forEach((instrument) =>
+      this.instruments.set(instrument.symbol, instrument),
+    );
+
+    options?.commissionRates?.forEach((rate) =>
+      this.commRates.set(rate.symbol, rate),
+    );
+
+    options?.marginRates?.forEach((rate) =>
+      this.marginRates.set(rate.symbol, rate),
+    );
+
+    options?.positions?.forEach((detail) => {
+      const instrument = this.instruments.get(detail.symbol);
+
+      if (!instrument) {
+        return;
+      }
+
+      const position = this._ensurePositionInfo(detail.symbol);
+
+      switch (detail.side) {
+        case "long":
+          position.history.long.position += detail.volume;
+          break;
+
+        case "short":
+          position.history.short.position += detail.volume;
+          break;
+      }
+
+      const margin = this._calcMargin(
+        instrument,
+        detail.side,
+        detail.price,
+        detail.volume,
+      );
+
+      this.positionDetails.push({ ...detail, margin: margin });
+      this.preMargin += margin;
+    });
+  }
+
+  open(lifecycle: ILifecycleListener) {
+    if (this.opened) {
+      return true;
+    }
+
+    this.opened = true;
+    this.positions.forEach((position) => this._watch(position.symbol));
+
+    this._defer(() => lifecycle.onOpen());
+
+    return true;
+  }
+
+  close(lifecycle: ILifecycleListener) {
+    if (!this.opened) {
+      return;
+    }
+
+    this.opened = false;
+
+    lifecycle.onClose();
+  }
+
+  addOrderReceiver(receiver: IOrderReceiver) {
+    if (!this.receivers.includes(receiver)) {
+      this.receivers.push(receiver);
+    }
+  }
+
+  removeOrderReceiver(receiver: IOrderReceiver) {
+    const index = this.receivers.indexOf(receiver);
+
+    if (index < 0) {
+      return;
+    }
+
+    this.receivers.splice(index, 1);
+  }
+
+  onTick(tick: TickData, tape: TapeData) {
+    if (!this.instruments.has(tick.symbol)) {
+      return;
+    }
+
+    if (this.tradingDay === 0) {
+      this.tradingDay = tick.tradingDay;
+    } else if (tick.tradingDay > this.tradingDay) {
+      this._settle(tick.tradingDay);
+    }
+
+    this.lastTicks.set(tick.symbol, tick);
+
+    if (this.queueEstimator) {
+      this.queueEstimator.onTick(tick, tape);
+    }
+
+    this.liveOrders.forEach((simOrder) => {
+      if (simOrder.order.symbol === tick.symbol) {
+        this._matchOrder(simOrder, tick, tape);
+      }
+    });
+  }
+
+  getTradingDay() {
+    return this.tradingDay;
+  }
+
+  getOrderStatistics() {
+    const statistics = Array.from(this.orderStatistics.values());
+    return statistics.map((stat) => Object.freeze({ ...stat }));
+  }
+
+  getOrderStatistic(symbol: string) {
+    const statistic = this.orderStatistics.get(symbol);
+
+    if (!statistic) {
+      return Object.freeze({
+        symbol: symbol,
+        places: 0,
+        entrusts: 0,
+        filleds: 0,
+        cancels: 0,
+        rejects: 0,
+      });
+    }
+
+    return Object.freeze({ ...statistic });
+  }
+
+  queryCommissionRate(symbol: string, receiver: ICommissionRateReceiver) {
+    receiver.onCommissionRate(this.commRates.get(symbol));
+  }
+
+  queryMarginRate(symbol: string, receiver: IMarginRateReceiver) {
+    receiver.onMarginRate(this.marginRates.get(symbol));
+  }
+
+  queryInstrument(symbol: string, receiver: IInstrumentReceiver) {
+    receiver.onInstrument(this.instruments.get(symbol));
+  }
+
+  queryPosition(symbol: string, receiver: IPositionReceiver) {
+    const position = this.positions.get(symbol);
+
+    if (position) {
+      receiver.onPosition(toPositionData(position));
+      return;
+    }
+
+    if (!this.instruments.has(symbol)) {
+      receiver.onPosition(undefined);
+      return;
+    }
+
+    receiver.onPosition(toPositionData(createPositionInfo(symbol)));
+  }
+
+  queryInstruments(receiver: IInstrumentsReceiver, type?: ProductType) {
+    const instruments = Array.from(this.instruments.values());
+
+    receiver.onInstruments(
+      type
+        ? instruments.filter((instrument) => instrument.productType === type)
+        : instruments,
+    );
+  }
+
+  queryTradingAccounts(receiver: ITradingAccountsReceiver) {
+    receiver.onTradingAccounts([this._toTradingAccount()]);
+  }
+
+  queryPositions(receiver: IPositionsReceiver) {
+    const positions: PositionData[] = [];
+
+    this.positions.forEach((position) =>
+      positions.push(toPositionData(position)),
+    );
+
+    receiver.onPositions(positions);
+  }
+
+  queryPositionDetails(receiver: IPositionDetailsReceiver) {
+    receiver.onPositionDetails(
+      this.positionDetails.map((detail) => Object.freeze({ ...detail })),
+    );
+  }
+
+  queryOrders(receiver: IOrdersReceiver) {
+    const orders: OrderData[] = [];
+
+    this.orders.forEach((simOrder) => {
+      orders.push(this._toOrderData(simOrder.order));
+    });
+
+    receiver.onOrders(orders);
+  }
+
+  placeOrder(
+    symbol: string,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    receiver: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
+  ) {
+    if (volume <= 0) {
+      receiver.onPlaceOrderError("Invalid Volume");
+      return;
+    }
+
+    if (!isValidOrderOptions(volume, options)) {
+      receiver.onPlaceOrderError("Invalid Order Options");
+      return;
+    }
+
+    const instrument = this.instruments.get(symbol);
+
+    if (!instrument) {
+      const [instrumentId] = parseSymbol(symbol);
+
+      receiver.onPlaceOrderError(
+        this._hasInstrumentId(instrumentId)
+          ? "Exchange Id Error"
+          : "Instrument Not Found",
+      );
+      return;
+    }
+
+    if (!this.opened) {
+      receiver.onPlaceOrderError("Request Error");
+      return;
+    }
+
+    if (flag === "market") {
+      const lastTick = this.lastTicks.get(symbol);
+
+      if (!lastTick) {
+        receiver.onPlaceOrderError("Request Error");
+        return;
+      }
+
+      const isLimitPrice =
+        !isValidPrice(lastTick.bandings.upper) ||
+        !isValidPrice(lastTick.bandings.lower);
+
+      const priceRange = isLimitPrice ? lastTick.limits : lastTick.bandings;
+
+      price = side === "long" ? priceRange.upper : priceRange.lower;
+    }
+
+    const orderRef = ++this.orderRef;
+
+    this._watch(symbol);
+
+    this._defer(() => {
+      const statistic = this._ensureOrderStatistic(symbol);
+
+      statistic.places += 1;
+
+      receiver.onPlaceOrderSent(`0:0:${orderRef}`);
+
+      this._insertOrder(
+        instrument,
+        orderRef,
+        offset,
+        side,
+        volume,
+        price,
+        flag,
+        options,
+      );
+    });
+  }
+
+  cancelOrder(order: OrderData, receiver: ICancelOrderResultReceiver) {
+    const current = this.orders.get(order.id);
+
+    if (!current) {
+      receiver.onCancelOrderError("Order Not Found");
+      return;
+    }
+
+    if (order.cancelTime) {
+      receiver.onCancelOrderError("Already Canceled");
+      return;
+    }
+
+    this._defer(() => {
+      if (!this.liveOrders.has(order.id)) {
+        receiver.onCancelOrderError("Order Finished");
+        return;
+      }
+
+      receiver.onCancelOrderSent();
+
+      this._cancelOrder(current);
+    });
+  }
+
+  private _defer(callback: () => void) {
+    queueMicrotask(callback);
+  }
+
+  private _watch(symbol: string) {
+    if (!this.market || this.watchings.has(symbol)) {
+      return;
+    }
+
+    this.watchings.add(symbol);
+    this.market.subscribe([symbol], this);
+  }
+
+  private _hasInstrumentId(instrumentId: string) {
+    for (const instrument of this.instruments.values()) {
+      if (instrument.id === instrumentId) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private _insertOrder(
+    instrument: InstrumentData,
+    orderRef: number,
+    offset: OffsetType,
+    side: SideType,
+    volume: number,
+    price: number,
+    flag: OrderFlag,
+    options?: OrderOptions,
+  ) {
+    const symbol = instrument.symbol;
+    const lastTick = this.lastTicks.get(symbol);
+
+    const order: OrderInfo = {
+      id: `${instrument.exchangeId}:simulator:${orderRef}`,
+      receiptId: `0:0:${orderRef}`,
+      symbol: symbol,
+      date: lastTick ? lastTick.date : this.tradingDay,
+      time: lastTick ? Math.floor(lastTick.time) : 0,
+      flag: flag,
+      timeInForce: options?.timeInForce ?? "gfd",
+      volumeCondition: options?.volumeCondition ?? "any",
+      side: side,
+      offset: offset,
+      price: price,
+      volume: volume,
+      traded: 0,
+      status: "submitted",
+      trades: [],
+    };
+
+    const simOrder: SimOrder = {
+      order: order,
+      instrument: instrument,
+      frozenMargin: 0,
+      frozenCommission: 0,
+      minVolume: options?.minVolume ?? 0,
+      resting: false,
+    };
+
+    this.orders.set(order.id, simOrder);
+
+    const statistic = this._ensureOrderStatistic(symbol);
+
+    if (offset === "open") {
+      simOrder.frozenMargin = this._calcMargin(instrument, side, price, 1);
+      simOrder.frozenCommission = this._calcCommission(
+        instrument,
+        offset,
+        price,
+        1,
+      );
+
+      const account = this._toTradingAccount();
+      const frozen =
+        (simOrder.frozenMargin + simOrder.frozenCommission) * volume;
+
+      if (account.cash < frozen) {
+        this._rejectOrder(simOrder);
+        return;
+      }
+
+      recordPending(this._ensurePositionInfo(symbol), side, offset, volume);
+    } else {
+      if (this._calcClosable(symbol, side, offset) < volume) {
+        this._rejectOrder(simOrder);
+        return;
+      }
+
+      freezePosition(this._ensurePositionInfo(symbol), side, offset, volume);
+    }
+
+    statistic.entrusts += 1;
+
+    this.liveOrders.set(order.id, simOrder);
+
+    const orderData = this._toOrderData(order);
+
+    this.receivers.forEach((receiver) => receiver.onEntrust(orderData));
+  }
+
+  private _rejectOrder(simOrder: SimOrder) {
+    const statistic = this._ensureOrderStatistic(simOrder.order.symbol);
+
+    simOrder.order.status = "rejected";
+    statistic.rejects += 1;
+
+    const orderData = this._toOrderData(simOrder.order);
+
+    this.receivers.forEach((receiver) => receiver.onReject(orderData));
+  }
+
+  private _cancelOrder(simOrder: SimOrder) {
+    const order = simOrder.order;
+    const rest = order.volume - order.traded;
+    const position = this._ensurePositionInfo(order.symbol);
+    const lastTick = this.lastTicks.get(order.symbol);
+
+    this.liveOrders.delete(order.id);
+
+    order.status = "canceled";
+    order.cancelTime = lastTick ? Math.floor(lastTick.time) : 0;
+
+    if (order.offset === "open") {
+      recoverPending(position, order.side, order.offset, rest);
+    } else {
+      unfreezePosition(position, order.side, order.offset, rest);
+    }
+
+    const statistic = this._ensureOrderStatistic(order.symbol);
+
+    statistic.cancels += 1;
+
+    const orderData = this._toOrderData(order);
+
+    this.receivers.forEach((receiver) => receiver.onCancel(orderData));
+  }
+
+  private _calcClosable(symbol: string, side: SideType, offset: OffsetType) {
+    const position = this.positions.get(symbol);
+
+    if (!position) {
+      return 0;
+    }
+
+    const [, exchangeId] = parseSymbol(symbol);
+
+    return calcClosable(position, side, offset, exchangeId);
+  }
+
+  private _matchOrder(simOrder: SimOrder, tick: TickData, tape: TapeData) {
+    const order = simOrder.order;
+    const isLong = order.side === "long";
+    const book = isLong ? tick.orderBook.asks : tick.orderBook.bids;
+    const consumed = this._ensureConsumed(tick);
+    let matched = false;
+
+    if (!simOrder.resting && order.volumeCondition !== "any") {
+      const required =
+        order.volumeCondition === "all" ? order.volume : simOrder.minVolume;
+
+      if (this._calcMatchable(order, book, consumed) < required) {
+        this._cancelOrder(simOrder);
+        return;
+      }
+    }
+
+    for (let i = 0; i < book.price.length; ++i) {
+      const rest = order.volume - order.traded;
+      const price = book.price[i]!;
+
+      if (rest <= 0 || (isLong ? price > order.price : price < order.price)) {
+        break;
+      }
+
+      const key = `${order.side}:${price}`;
+      const available = book.volume[i]! - (consumed.get(key) ?? 0);
+
+      if (available <= 0) {
+        continue;
+      }
+
+      const volume = Math.min(rest, available);
+
+      consumed.set(key, (consumed.get(key) ?? 0) + volume);
+
+      this._fillOrder(
+        simOrder,
+        simOrder.resting ? order.price : price,
+        volume,
+        tick,
+      );
+
+      matched = true;
+    }
+
+    const tapeVolume = tape.volumeDelta - (consumed.get("tape") ?? 0);
+
+    if (!matched && simOrder.resting && tapeVolume > 0) {
+      const rest = order.volume - order.traded;
+
+      const isTradeThrough = isLong
+        ? tick.lastPrice < order.price
+        : tick.lastPrice > order.price;
+
+      let volume = 0;
+
+      if (rest > 0 && isTradeThrough) {
+        volume = Math.min(rest, tapeVolume);
+      } else if (rest > 0 && this.queueEstimator) {
+        const position = this.queueEstimator.getQueuePosition(order.id);
+
+        if (position && position.fillable > 0) {
+          volume = Math.min(rest, position.fillable, tapeVolume);
+        }
+      }
+
+      if (volume > 0) {
+        consumed.set("tape", (consumed.get("tape") ?? 0) + volume);
+        this._fillOrder(simOrder, order.price, volume, tick);
+      }
+    }
+
+    if (order.timeInForce === "ioc" && order.status !== "filled") {
+      this._cancelOrder(simOrder);
+      return;
+    }
+
+    simOrder.resting = true;
+  }
+
+  private _calcMatchable(
+    order: OrderInfo,
+    book: TapeSide,
+    consumed: Map<string, number>,
+  ) {
+    const isLong = order.side === "long";
+    let volume = 0;
+
+    for (let i = 0; i < book.price.length; ++i) {
+      const price = book.price[i]!;
+
+      if (isLong ? price > order.price : price < order.price) {
+        break;
+      }
+
+      const key = `${order.side}:${price}`;
+
+      volume += Math.max(book.volume[i]! - (consumed.get(key) ?? 0), 0);
+    }
+
+    return volume;
+  }
+
+  private _ensureConsumed(tick: TickData) {
+    let liquidity = this.liquidities.get(tick.symbol);
+
+    if (!liquidity || liquidity.tick !== tick) {
+      liquidity = { tick, consumed: new Map() };
+      this.liquidities.set(tick.symbol, liquidity);
+    }
+
+    return liquidity.consumed;
+  }
+
+  private _fillOrder(
+    simOrder: SimOrder,
+    price: number,
+    volume: number,
+    tick: TickData,
+  ) {
+    const order = simOrder.order;
+    const instrument = simOrder.instrument;
+
+    const trade: TradeData = Object.freeze({
+      id: `${++this.tradeRef}`,
+      date: tick.date,
+      time: Math.floor(tick.time),
+      price: price,
+      volume: volume,
+    });
+
+    order.trades.push(trade);
+    order.traded += volume;
+    order.status = order.traded >= order.volume ? "filled" : "partially-filled";
+
+    calcPosition(
+      this._ensurePositionInfo(order.symbol),
+      order.side,
+      order.offset,
+      volume,
+    );
+
+    if (order.offset === "open") {
+      this.commission += this._calcCommission(
+        instrument,
+        order.offset,
+        price,
+        volume,
+      );
+
+      this.positionDetails.push({
+        symbol: order.symbol,
+        date: this.tradingDay,
+        side: order.side,
+        price: price,
+        volume: volume,
+        margin: this._calcMargin(instrument, order.side, price, volume),
+      });
+    } else {
+      this._closeDetails(instrument, order.side, order.offset, price, volume);
+    }
+
+    if (order.status === "filled") {
+      const statistic = this._ensureOrderStatistic(order.symbol);
+
+      statistic.filleds += 1;
+
+      this.liveOrders.delete(order.id);
+    }
+
+    const orderData = this._toOrderData(order);
+
+    this.receivers.forEach((receiver) => receiver.onTrade(orderData, trade));
+  }
+
+  private _closeDetails(
+    instrument: InstrumentData,
+    side: SideType,
+    offset: OffsetType,
+    price: number,
+    volume: number,
+  ) {
+    const detailSide: SideType = side === "long" ? "short" : "long";
+    const direction = detailSide === "long" ? 1 : -1;
+
+    const details = this.positionDetails.filter(
+      (detail) =>
+        detail.symbol === instrument.symbol && detail.side === detailSide,
+    );
+
+    const histories = details.filter(
+      (detail) => detail.date !== this.tradingDay,
+    );
+
+    const todays = details.filter((detail) => detail.date === this.tradingDay);
+    const candidates =
+      offset === "close-today" ? todays : [...histories, ...todays];
+
+    let rest = volume;
+
+    for (const detail of candidates) {
+      if (rest <= 0) {
+        break;
+      }
+
+      const closed = Math.min(rest, detail.volume);
+      const isToday = detail.date === this.tradingDay;
+
+      this.closeProfit +=
+        (price - detail.price) * closed * instrument.multiple * direction;
+
+      this.commission += this._calcCommission(
+        instrument,
+        isToday ? "close-today" : "close",
+        price,
+        closed,
+      );
+
+      detail.margin -= (detail.margin * closed) / detail.volume;
+      detail.volume -= closed;
+      rest -= closed;
+    }
+
+    for (let i = this.positionDetails.length - 1; i >= 0; --i) {
+      if (this.positionDetails[i]!.volume <= 0) {
+        this.positionDetails.splice(i, 1);
+      }
+    }
+  }
+
+  private _settle(tradingDay: number) {
+    this.liveOrders.forEach((simOrder) => this._cancelOrder(simOrder));
+
+    const account = this._toTradingAccount();
+
+    this.positionDetails.forEach((detail) => {
+      const lastTick = this.lastTicks.get(detail.symbol);
+      const instrument = this.instruments.get(detail.symbol)!;
+
+      if (lastTick && isValidPrice(lastTick.lastPrice)) {
+        detail.price = lastTick.lastPrice;
+      }
+
+      detail.margin = this._calcMargin(
+        instrument,
+        detail.side,
+        detail.price,
+        detail.volume,
+      );
+    });
+
+    this.positions.forEach((position) => {
+      position.history.long.position += position.today.long.position;
+      position.history.short.position += position.today.short.position;
+      position.today.long.position = 0;
+      position.today.short.position = 0;
+      position.today.long.frozen = 0;
+      position.today.short.frozen = 0;
+      position.history.long.frozen = 0;
+      position.history.short.frozen = 0;
+      position.pending.long = 0;
+      position.pending.short = 0;
+    });
+
+    this.preBalance = account.balance;
+    this.preMargin = this.positionDetails
+      .map((detail) => detail.margin)
+      .reduce((a, b) => a + b, 0);
+
+    this.closeProfit = 0;
+    this.commission = 0;
+    this.orderStatistics.clear();
+    this.tradingDay = tradingDay;
+  }
+
+  private _calcMargin(
+    instrument: InstrumentData,
+    side: SideType,
+    price: number,
+    volume: number,
+  ) {
+    const marginRate = this.marginRates.get(instrument.symbol);
+
+    if (!marginRate) {
+      return 0;
+    }
+
+    const rate = side === "long" ? marginRate.long : marginRate.short;
+
+    return this._calcRatioAmount(rate, instrument, price, volume);
+  }
+
+  private _calcCommission(
+    instrument: InstrumentData,
+    offset: OffsetType,
+    price: number,
+    volume: number,
+  ) {
+    const commRate = this.commRates.get(instrument.symbol);
+
+    if (!commRate) {
+      return 0;
+    }
+
+    switch (offset) {
+      case "open":
+        return this._calcRatioAmount(commRate.open, instrument, price, volume);
+
+      case "close":
+        return this._calcRatioAmount(commRate.close, instrument, price, volume);
+
+      case "close-today":
+        return this._calcRatioAmount(
+          commRate.closeToday,
+          instrument,
+          price,
+          volume,
+        );
+    }
+  }
+
+  private _calcRatioAmount(
+    rate: RatioAmount,
+    instrument: InstrumentData,
+    price: number,
+    volume: number,
+  ) {
+    return (
+      price * instrument.multiple * volume * rate.ratio + volume * rate.amount
+    );
+  }
+
+  private _calcPositionProfit() {
+    let profit = 0;
+
+    this.positionDetails.forEach((detail) => {
+      const lastTick = this.lastTicks.get(detail.symbol);
+      const instrument = this.instruments.get(detail.symbol)!;
+
+      if (!lastTick || !isValidPrice(lastTick.lastPrice)) {
+        return;
+      }
+
+      const direction = detail.side === "long" ? 1 : -1;
+
+      profit +=
+        (lastTick.lastPrice - detail.price) *
+        detail.volume *
+        instrument.multiple *
+        direction;
+    });
+
+    return profit;
+  }
+
+  private _ensurePositionInfo(symbol: string): PositionInfo {
+    let position = this.positions.get(symbol);
+
+    if (!position) {
+      position = createPositionInfo(symbol);
+      this.positions.set(symbol, position);
+    }
+
+    return position;
+  }
+
+  private _ensureOrderStatistic(symbol: string): OrderStat {
+    let statistic = this.orderStatistics.get(symbol);
+
+    if (!statistic) {
+      statistic = {
+        symbol: symbol,
+        places: 0,
+        entrusts: 0,
+        filleds: 0,
+        cancels: 0,
+        rejects: 0,
+      };
+
+      this.orderStatistics.set(symbol, statistic);
+    }
+
+    return statistic;
+  }
+
+  private _toOrderData(order: OrderInfo): OrderData {
+    return Object.freeze({ ...order, trades: [...order.trades] });
+  }
+
+  private _toTradingAccount(): TradingAccount {
+    let margin = 0;
+    let frozenMargin = 0;
+    let frozenCommission = 0;
+
+    this.positionDetails.forEach((detail) => (margin += detail.margin));
+
+    this.liveOrders.forEach((simOrder) => {
+      const rest = simOrder.order.volume - simOrder.order.traded;
+
+      frozenMargin += simOrder.frozenMargin * rest;
+      frozenCommission += simOrder.frozenCommission * rest;
+    });
+
+    const balance =
+      this.preBalance +
+      this.closeProfit +
+      this._calcPositionProfit() -
+      this.commission;
+
+    return Object.freeze({
+      id: this.accountId,
+      currency: "CNY",
+      preBalance: this.preBalance,
+      preMargin: this.preMargin,
+      balance: balance,
+      cash: balance - margin - frozenMargin - frozenCommission,
+      margin: margin,
+      commission: this.commission,
+      frozenMargin: frozenMargin,
+      frozenCash: 0,
+      frozenCommission: frozenCommission,
+    });
+  }
+}
+
+export const createSimTrader = (
+  instruments: InstrumentData[],
+  options?: SimTraderOptions,
+) => new SimTrader(instruments, options);
@@ -0,0 +1,132 @@
+/*
+ * store.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { MinuteBar } from "./bar.js";
+import { compactBars, createFileBarStore } from "./store.js";
+import { TestSymbol } from "./testing.js";
+import type { BarData, PriceVolume } from "./typedef.js";
+
+const createBar = (
+  date: number,
+  time: number,
+  price: number,
+  buyVolumes: PriceVolume,
+  sellVolumes: PriceVolume = {},
+): BarData => {
+  let volume = 0;
+  let delta = 0;
+
+  for (const key in buyVolumes) {
+    volume += buyVolumes[key]!;
+    delta += buyVolumes[key]!;
+  }
+
+  for (const key in sellVolumes) {
+    volume += sellVolumes[key]!;
+    delta -= sellVolumes[key]!;
+  }
+
+  return {
+    symbol: TestSymbol,
+    date: date,
+    time: time,
+    openInterest: 0,
+    openPrice: price,
+    highPrice: price + 1,
+    lowPrice: price - 1,
+    closePrice: price,
+    volume: volume,
+    amount: 0,
+    delta: delta,
+    poc: price,
+    buyVolumes: buyVolumes,
+    sellVolumes: sellVolumes,
+  };
+};
+
+describe("compactBars", () => {
+  it("merges minute bars into session-aligned periods", () => {
+    const bars = compactBars(
+      [
+        createBar(20250102, 93000, 3000, { 3000: 2 }),
+        createBar(20250102, 93100, 3002, { 3002: 3 }, { 3000: 2 }),
+        createBar(20250102, 93500, 3004, { 3004: 1 }),
+      ],
+      { type: "minute", size: 5 },
+    );
+
+    assert.equal(bars.length, 2);
+    assert.equal(bars[0]?.time, 93000);
+    assert.equal(bars[0]?.openPrice, 3000);
+    assert.equal(bars[0]?.closePrice, 3002);
+    assert.equal(bars[0]?.highPrice, 3003);
+    assert.equal(bars[0]?.volume, 7);
+    assert.equal(bars[0]?.delta, 3);
+    assert.equal(bars[0]?.poc, 3000);
+    assert.equal(bars[1]?.time, 93500);
+  });
+
+  it("groups night bars into their trading day", () => {
+    const bars = compactBars(
+      [
+        createBar(20250102, 210000, 3000, { 3000: 1 }),
+        createBar(20250103, 90000, 3001, { 3001: 1 }),
+        createBar(20250103, 210000, 3002, { 3002: 1 }),
+      ],
+      { type: "day", size: 1 },
+    );
+
+    assert.deepEqual(
+      bars.map((bar) => [bar.date, bar.volume]),
+      [
+        [20250103, 2],
+        [20250106, 1],
+      ],
+    );
+  });
+
+  it("rejects bar types without a fixed period", () => {
+    assert.throws(() => compactBars([], { type: "volume", size: 10 }), {
+      message: "Unsupported Bar Type: volume",
+    });
+  });
+});
+
+describe("FileBarStore", () => {
+  const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "hft-store-"));
+
+  after(() => fs.rmSync(rootPath, { recursive: true, force: true }));
+
+  it("loads the latest bars across daily files", async () => {
+    const store = createFileBarStore(rootPath);
+
+    store.saveBar(MinuteBar, createBar(20250102, 145900, 3000, { 3000: 1 }));
+    store.saveBar(MinuteBar, createBar(20250103, 90000, 3001, { 3001: 1 }));
+    store.saveBar(MinuteBar, createBar(20250103, 90100, 3002, { 3002: 1 }));
+
+    const bars = await store.loadBars(TestSymbol, MinuteBar, 2);
+
+    assert.deepEqual(
+      store.getDates(TestSymbol, MinuteBar),
+      [20250102, 20250103],
+    );
+    assert.deepEqual(
+      bars.map((bar) => bar.time),
+      [90000, 90100],
+    );
+    assert.deepEqual(bars[0]?.buyVolumes, { 3001: 1 });
+  });
+});
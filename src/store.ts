@@ -0,0 +1,294 @@
+/*
+ * store.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { BarData, BarSpec } from "./typedef.js";
+import type {
+  IBarReceiver,
+  IBarStore,
+  IErrorReceiver,
+  ITradingCalendar,
+} from "./interfaces.js";
+import { MinuteBar, alignBarTime, getBarPeriod, getBarSpecKey } from "./bar.js";
+import { createTradingCalendar } from "./calendar.js";
+import { mergeBarData, timeToSeconds } from "./utils.js";
+
+const BarExtension = ".jsonl";
+
+export type FileBarStoreOptions = {
+  errorReceiver?: IErrorReceiver;
+};
+
+export const compactBars = (
+  bars: BarData[],
+  spec: BarSpec,
+  calendar: ITradingCalendar = createTradingCalendar(),
+) => {
+  const period = getBarPeriod(spec);
+
+  if (period === undefined && spec.type !== "day") {
+    throw new Error(`Unsupported Bar Type: ${spec.type}`);
+  }
+
+  const sessionOpens = new Map<string, number[]>();
+
+  const calcBarTime = (bar: BarData): [number, number] => {
+    if (period === undefined) {
+      return [calendar.getTradingDay(bar.date, bar.time), 0];
+    }
+
+    let opens = sessionOpens.get(bar.symbol);
+
+    if (!opens) {
+      opens = calendar
+        .getSessions(bar.symbol)
+        .map((session) => timeToSeconds(session.open));
+
+      sessionOpens.set(bar.symbol, opens);
+    }
+
+    return [bar.date, alignBarTime(opens, bar.time, period)];
+  };
+
+  const compacted: BarData[] = [];
+  let group: BarData[] = [];
+  let date = 0;
+  let time = 0;
+
+  const flush = () => {
+    if (group.length > 0) {
+      compacted.push(Object.freeze({ ...mergeBarData(group), date, time }));
+      group = [];
+    }
+  };
+
+  bars.forEach((bar) => {
+    const [barDate, barTime] = calcBarTime(bar);
+
+    if (
+      group.length > 0 &&
+      (barDate !== date || barTime !== time || bar.symbol !== group[0]!.symbol)
+    ) {
+      flush();
+    }
+
+    date = barDate;
+    time = barTime;
+    group.push(bar);
+  });
+
+  flush();
+
+  return compacted;
+};
+
+export class MemoryBarStore implements IBarStore {
+  private readonly capacity: number;
+  private readonly bars: Map<string, BarData[]>;
+
+  constructor(capacity = 1000) {
+    this.capacity = capacity;
+    this.bars = new Map();
+  }
+
+  saveBar(spec: BarSpec, bar: BarData) {
+    const key = `${bar.symbol}:${getBarSpecKey(spec)}`;
+    const bars = this.bars.get(key);
+
+    if (!bars) {
+      this.bars.set(key, [bar]);
+      return;
+    }
+
+    bars.push(bar);
+
+    if (bars.length > this.capacity) {
+      bars.splice(0, bars.length - this.capacity);
+    }
+  }
+
+  async loadBars(symbol: string, spec: BarSpec, count: number) {
+    const bars = this.bars.get(`${symbol}:${getBarSpecKey(spec)}`);
+    return bars && count > 0 ? bars.slice(-count) : [];
+  }
+}
+
+export class FileBarStore implements IBarStore {
+  private readonly rootPath: string;
+  private readonly errorReceiver?: IErrorReceiver;
+
+  constructor(rootPath: string, options?: FileBarStoreOptions) {
+    this.rootPath = rootPath;
+
+    if (options?.errorReceiver) {
+      this.errorReceiver = options.errorReceiver;
+    }
+  }
+
+  saveBar(spec: BarSpec, bar: BarData) {
+    const dirPath = this._getDirPath(bar.symbol, spec);
+
+    try {
+      fs.mkdirSync(dirPath, { recursive: true });
+      fs.appendFileSync(
+        path.join(dirPath, `${bar.date}${BarExtension}`),
+        `${JSON.stringify(bar)}\n`,
+      );
+    } catch (error) {
+      this._onError(error);
+    }
+  }
+
+  async loadBars(symbol: string, spec: BarSpec, count: number) {
+    const bars: BarData[] = [];
+    const dates = this.getDates(symbol, spec);
+
+    for (let i = dates.length - 1; i >= 0 && bars.length < count; --i) {
+      bars.unshift(...(await this._readFile(symbol, spec, dates[i]!)));
+    }
+
+    return count > 0 ? bars.slice(-count) : [];
+  }
+
+  getDates(symbol: string, spec: BarSpec) {
+    const dirPath = this._getDirPath(symbol, spec);
+
+    if (!fs.existsSync(dirPath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(dirPath)
+      .filter((file) => /^\d{8}\.jsonl$/.test(file))
+      .map((file) => parseInt(file))
+      .sort((a, b) => a - b);
+  }
+
+  async readBars(
+    symbol: string,
+    spec: BarSpec,
+    startDate?: number,
+    endDate?: number,
+  ) {
+    const bars: BarData[] = [];
+
+    const dates = this.getDates(symbol, spec).filter(
+      (date) =>
+        (startDate === undefined || date >= startDate) &&
+        (endDate === undefined || date <= endDate),
+    );
+
+    for (const date of dates) {
+      bars.push(...(await this._readFile(symbol, spec, date)));
+    }
+
+    return bars;
+  }
+
+  async compact(
+    symbol: string,
+    source: BarSpec,
+    target: BarSpec,
+    startDate?: number,
+    endDate?: number,
+    calendar?: ITradingCalendar,
+  ) {
+    const bars = compactBars(
+      await this.readBars(symbol, source, startDate, endDate),
+      target,
+      calendar,
+    );
+
+    const dirPath = this._getDirPath(symbol, target);
+    const files = new Map<number, string[]>();
+
+    bars.forEach((bar) => {
+      const lines = files.get(bar.date);
+      const line = JSON.stringify(bar);
+
+      if (lines) {
+        lines.push(line);
+      } else {
+        files.set(bar.date, [line]);
+      }
+    });
+
+    await fs.promises.mkdir(dirPath, { recursive: true });
+
+    for (const [date, lines] of files) {
+      await fs.promises.writeFile(
+        path.join(dirPath, `${date}${BarExtension}`),
+        `${lines.join("\n")}\n`,
+      );
+    }
+
+    return bars;
+  }
+
+  private _getDirPath(symbol: string, spec: BarSpec) {
+    return path.join(this.rootPath, symbol, `${spec.type}${spec.size}`);
+  }
+
+  private async _readFile(symbol: string, spec: BarSpec, date: number) {
+    const filePath = path.join(
+      this._getDirPath(symbol, spec),
+      `${date}${BarExtension}`,
+    );
+
+    const content = await fs.promises.readFile(filePath, "utf8");
+
+    return content
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        const bar: BarData = JSON.parse(line);
+
+        Object.freeze(bar.buyVolumes);
+        Object.freeze(bar.sellVolumes);
+
+        return Object.freeze(bar);
+      });
+  }
+
+  private _onError(error: unknown) {
+    if (this.errorReceiver) {
+      this.errorReceiver.onError("record-error", `${error}`);
+    }
+  }
+}
+
+export class BarWriter implements IBarReceiver {
+  private readonly store: IBarStore;
+  private readonly spec: BarSpec;
+
+  constructor(store: IBarStore, spec: BarSpec = MinuteBar) {
+    this.store = store;
+    this.spec = spec;
+  }
+
+  onBar(bar: BarData, historical?: boolean) {
+    if (!historical) {
+      this.store.saveBar(this.spec, bar);
+    }
+  }
+}
+
+export const createMemoryBarStore = (capacity?: number) =>
+  new MemoryBarStore(capacity);
+
+export const createFileBarStore = (
+  rootPath: string,
+  options?: FileBarStoreOptions,
+) => new FileBarStore(rootPath, options);
+
+export const createBarWriter = (store: IBarStore, spec?: BarSpec) =>
+  new BarWriter(store, spec);
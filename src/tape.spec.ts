@@ -0,0 +1,74 @@
+/*
+ * tape.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTapeAggregator } from "./tape.js";
+import { TestSymbol, createTick } from "./testing.js";
+import type { TapeData, TapeStatus } from "./typedef.js";
+
+const createTapeTick = (time: number, tradingDay = 20250102) =>
+  createTick(3000, { time, tradingDay });
+
+const createTape = (status: TapeStatus, volumeDelta: number): TapeData => ({
+  type: status.startsWith("close") ? "close" : "open",
+  direction: status === "open-long" || status === "close-short" ? "up" : "down",
+  status: status,
+  interestDelta: status.startsWith("close") ? -volumeDelta : volumeDelta,
+  volumeDelta: volumeDelta,
+  amountDelta: 0,
+});
+
+describe("TapeAggregator", () => {
+  it("accumulates session powers and resets on a new trading day", () => {
+    const aggregator = createTapeAggregator();
+
+    aggregator.onTick(createTapeTick(93000), createTape("open-long", 3));
+    aggregator.onTick(createTapeTick(93001), createTape("close-long", 1));
+    aggregator.onTick(createTapeTick(93002), createTape("open-short", 0));
+
+    const statistic = aggregator.getSessionStatistic(TestSymbol);
+
+    assert.equal(statistic?.ticks, 2);
+    assert.equal(statistic?.longPower, 3);
+    assert.equal(statistic?.shortPower, 1);
+    assert.equal(statistic?.powerRatio, 0.75);
+    assert.equal(statistic?.upInterest, 3);
+    assert.equal(statistic?.downInterest, -1);
+
+    aggregator.onTick(
+      createTapeTick(210000, 20250103),
+      createTape("open-short", 2),
+    );
+
+    assert.equal(aggregator.getTradingDay(TestSymbol), 20250103);
+    assert.equal(aggregator.getSessionStatistic(TestSymbol)?.ticks, 1);
+  });
+
+  it("rolls tick and time windows", () => {
+    const aggregator = createTapeAggregator({
+      windows: { recent: { ticks: 2 }, minute: { seconds: 60 } },
+    });
+
+    aggregator.onTick(createTapeTick(93000), createTape("open-long", 1));
+    aggregator.onTick(createTapeTick(93030), createTape("open-long", 2));
+    aggregator.onTick(createTapeTick(93100), createTape("open-short", 4));
+
+    assert.equal(
+      aggregator.getWindowStatistic(TestSymbol, "recent")?.volume,
+      6,
+    );
+    assert.deepEqual(
+      aggregator.getWindowStatistic(TestSymbol, "minute")?.counts,
+      { "open-long": 1, "open-short": 1 },
+    );
+  });
+});
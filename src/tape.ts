@@ -12,10 +12,43 @@
 import type {
   TapeData,
   TapeDirection,
+  TapeStatistic,
   TapeStatus,
   TapeType,
   TickData,
 } from "./typedef.js";
+import type { ITickReceiver } from "./interfaces.js";
+import { timeToTradingSeconds } from "./utils.js";
+
+export type TapeWindow = Readonly<{
+  ticks?: number;
+  seconds?: number;
+}>;
+
+export type TapeAggregatorOptions = {
+  windows?: Record<string, TapeWindow>;
+};
+
+type TapeEntry = Readonly<{
+  seconds: number;
+  status: TapeStatus;
+  direction: TapeDirection;
+  volume: number;
+  interest: number;
+}>;
+
+type TapeFlow = {
+  tradingDay: number;
+  session: TapeCounter;
+  windows: Map<string, TapeCounter>;
+};
+
+const LongPowers: TapeStatus[] = ["open-long", "close-short", "turnover-long"];
+const ShortPowers: TapeStatus[] = [
+  "open-short",
+  "close-long",
+  "turnover-short",
+];
 
 const calcTapeType = (volumeDelta: number, interestDelta: number): TapeType => {
   if (interestDelta > 0) {
@@ -168,3 +201,178 @@ export const calcTapeData = (tick: TickData, preTick?: TickData): TapeData => {
     amountDelta: amountDelta,
   });
 };
+
+class TapeCounter {
+  private readonly window?: TapeWindow;
+  private readonly entries: TapeEntry[];
+  private ticks: number;
+  private volume: number;
+  private counts: Partial<Record<TapeStatus, number>>;
+  private volumes: Partial<Record<TapeStatus, number>>;
+  private upInterest: number;
+  private downInterest: number;
+
+  constructor(window?: TapeWindow) {
+    if (window) {
+      this.window = window;
+    }
+
+    this.entries = [];
+    this.ticks = 0;
+    this.volume = 0;
+    this.counts = {};
+    this.volumes = {};
+    this.upInterest = 0;
+    this.downInterest = 0;
+  }
+
+  add(entry: TapeEntry) {
+    this._accumulate(entry, 1);
+
+    if (!this.window) {
+      return;
+    }
+
+    this.entries.push(entry);
+
+    const { ticks, seconds } = this.window;
+
+    while (
+      this.entries.length > 0 &&
+      ((ticks !== undefined && this.entries.length > ticks) ||
+        (seconds !== undefined &&
+          entry.seconds - this.entries[0]!.seconds >= seconds))
+    ) {
+      this._accumulate(this.entries.shift()!, -1);
+    }
+  }
+
+  toStatistic(): TapeStatistic {
+    const sumVolumes = (statuses: TapeStatus[]) =>
+      statuses.reduce((sum, status) => sum + (this.volumes[status] ?? 0), 0);
+
+    const longPower = sumVolumes(LongPowers);
+    const shortPower = sumVolumes(ShortPowers);
+    const totalPower = longPower + shortPower;
+
+    return Object.freeze({
+      ticks: this.ticks,
+      volume: this.volume,
+      counts: Object.freeze({ ...this.counts }),
+      volumes: Object.freeze({ ...this.volumes }),
+      upInterest: this.upInterest,
+      downInterest: this.downInterest,
+      longPower,
+      shortPower,
+      powerRatio: totalPower > 0 ? longPower / totalPower : 0.5,
+    });
+  }
+
+  private _accumulate(entry: TapeEntry, sign: number) {
+    this.ticks += sign;
+    this.volume += sign * entry.volume;
+
+    const count = sign + (this.counts[entry.status] ?? 0);
+
+    if (count > 0) {
+      this.counts[entry.status] = count;
+      this.volumes[entry.status] =
+        sign * entry.volume + (this.volumes[entry.status] ?? 0);
+    } else {
+      delete this.counts[entry.status];
+      delete this.volumes[entry.status];
+    }
+
+    switch (entry.direction) {
+      case "up":
+        this.upInterest += sign * entry.interest;
+        break;
+
+      case "down":
+        this.downInterest += sign * entry.interest;
+        break;
+    }
+  }
+}
+
+export class TapeAggregator implements ITickReceiver {
+  private readonly windows: Record<string, TapeWindow>;
+  private readonly flows: Map<string, TapeFlow>;
+
+  constructor(options?: TapeAggregatorOptions) {
+    this.windows = options?.windows ?? {};
+    this.flows = new Map();
+  }
+
+  get windowNames() {
+    return Object.keys(this.windows);
+  }
+
+  onTick(tick: TickData, tape: TapeData) {
+    if (tape.volumeDelta <= 0) {
+      return;
+    }
+
+    const flow = this._ensureFlow(tick);
+
+    const entry: TapeEntry = Object.freeze({
+      seconds: timeToTradingSeconds(tick.time),
+      status: tape.status,
+      direction: tape.direction,
+      volume: tape.volumeDelta,
+      interest: tape.interestDelta,
+    });
+
+    flow.session.add(entry);
+    flow.windows.forEach((counter) => counter.add(entry));
+  }
+
+  getSessionStatistic(symbol: string) {
+    const flow = this.flows.get(symbol);
+    return flow ? flow.session.toStatistic() : undefined;
+  }
+
+  getWindowStatistic(symbol: string, name: string) {
+    const counter = this.flows.get(symbol)?.windows.get(name);
+    return counter ? counter.toStatistic() : undefined;
+  }
+
+  getTradingDay(symbol: string) {
+    return this.flows.get(symbol)?.tradingDay;
+  }
+
+  reset(symbol?: string) {
+    if (symbol === undefined) {
+      this.flows.clear();
+    } else {
+      this.flows.delete(symbol);
+    }
+  }
+
+  private _ensureFlow(tick: TickData) {
+    const flow = this.flows.get(tick.symbol);
+
+    if (flow && flow.tradingDay === tick.tradingDay) {
+      return flow;
+    }
+
+    const windows = new Map<string, TapeCounter>();
+
+    for (const name in this.windows) {
+      windows.set(name, new TapeCounter(this.windows[name]));
+    }
+
+    const newFlow: TapeFlow = {
+      tradingDay: tick.tradingDay,
+      session: new TapeCounter(),
+      windows,
+    };
+
+    this.flows.set(tick.symbol, newFlow);
+
+    return newFlow;
+  }
+}
+
+export const createTapeAggregator = (options?: TapeAggregatorOptions) =>
+  new TapeAggregator(options);
@@ -0,0 +1,179 @@
+/*
+ * testing.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import type {
+  ILifecycleListener,
+  IMarketProvider,
+  IOrderReceiver,
+  IStrategy,
+  ITickReceiver,
+} from "./interfaces.js";
+import type {
+  InstrumentData,
+  OrderData,
+  TapeData,
+  TickData,
+} from "./typedef.js";
+
+export const TestSymbol = "rb2510.SHFE";
+
+export const TestInstrument: InstrumentData = Object.freeze({
+  symbol: TestSymbol,
+  id: "rb2510",
+  name: "rb2510",
+  exchangeId: "SHFE",
+  productId: "rb",
+  productType: "futures",
+  deliveryTime: 0,
+  createDate: 0,
+  openDate: 0,
+  expireDate: 0,
+  multiple: 10,
+  priceTick: 1,
+  maxLimitOrderVolume: 500,
+  minLimitOrderVolume: 1,
+  strikePrice: 0,
+});
+
+export const EmptyTape: TapeData = Object.freeze({
+  type: "no-deal",
+  direction: "none",
+  status: "invalid",
+  interestDelta: 0,
+  volumeDelta: 0,
+  amountDelta: 0,
+});
+
+export const createTick = (
+  lastPrice = 3000,
+  fields?: Partial<TickData>,
+): TickData => ({
+  symbol: TestSymbol,
+  date: 20250102,
+  time: 93000,
+  tradingDay: 20250102,
+  preOpenInterest: 0,
+  preClose: 3000,
+  openInterest: 0,
+  openPrice: 3000,
+  highPrice: lastPrice,
+  lowPrice: lastPrice,
+  lastPrice: lastPrice,
+  volume: 0,
+  amount: 0,
+  limits: { upper: 3300, lower: 2700 },
+  bandings: { upper: 0, lower: 0 },
+  orderBook: {
+    asks: { price: [lastPrice + 1], volume: [50] },
+    bids: { price: [lastPrice], volume: [50] },
+  },
+  ...fields,
+});
+
+export const createOrder = (fields?: Partial<OrderData>): OrderData => ({
+  id: "SHFE:1",
+  receiptId: "0:0:1",
+  symbol: TestSymbol,
+  date: 20250102,
+  time: 93000,
+  flag: "limit",
+  timeInForce: "gfd",
+  volumeCondition: "any",
+  side: "long",
+  offset: "open",
+  price: 3000,
+  volume: 2,
+  traded: 0,
+  status: "submitted",
+  trades: [],
+  ...fields,
+});
+
+export const createOrderRecorder = () => {
+  const events: string[] = [];
+
+  const receiver: IOrderReceiver = {
+    onEntrust: (order) => events.push(`entrust:${order.receiptId}`),
+    onTrade: (order) => events.push(`trade:${order.receiptId}`),
+    onCancel: (order) => events.push(`cancel:${order.receiptId}`),
+    onReject: (order) => events.push(`reject:${order.receiptId}`),
+  };
+
+  return { receiver, events };
+};
+
+export const createStrategy = (): IStrategy & {
+  events: string[];
+  risks: string[];
+  links: string[];
+} => {
+  const { receiver, events } = createOrderRecorder();
+  const risks: string[] = [];
+  const links: string[] = [];
+
+  return {
+    ...receiver,
+    events: events,
+    risks: risks,
+    links: links,
+    onInit: () => {},
+    onDestroy: () => {},
+    onRisk: (_, reason) => risks.push(reason ?? ""),
+    onDisconnected: (link) => links.push(`${link}:disconnected`),
+    onReconnected: (link) => links.push(`${link}:reconnected`),
+  };
+};
+
+export const createMarket = () => {
+  const subscriptions = new Map<ITickReceiver, Set<string>>();
+  const lifecycles: ILifecycleListener[] = [];
+  let lastTick: TickData | undefined;
+
+  const market: IMarketProvider = {
+    open: (lifecycle) => {
+      lifecycles.push(lifecycle);
+      lifecycle.onOpen();
+      return true;
+    },
+    close: () => {},
+    subscribe: (symbols, receiver) => {
+      const subscribed = subscriptions.get(receiver) ?? new Set<string>();
+
+      symbols.forEach((symbol) => subscribed.add(symbol));
+      subscriptions.set(receiver, subscribed);
+    },
+    unsubscribe: (symbols, receiver) => {
+      const subscribed = subscriptions.get(receiver);
+
+      symbols.forEach((symbol) => subscribed?.delete(symbol));
+
+      if (subscribed?.size === 0) {
+        subscriptions.delete(receiver);
+      }
+    },
+    getRecorder: () => undefined,
+    getLastTick: () => lastTick,
+  };
+
+  const feed = (tick: TickData, tape: TapeData = EmptyTape) => {
+    lastTick = tick;
+
+    subscriptions.forEach((symbols, receiver) => {
+      if (symbols.has(tick.symbol)) {
+        receiver.onTick(tick, tape);
+      }
+    });
+  };
+
+  return { market, subscriptions, lifecycles, feed };
+};
+
+export const flush = () => new Promise((resolve) => setImmediate(resolve));
@@ -29,11 +29,32 @@ import type {
   RspAuthenticateField,
   RspUserLoginField,
   SettlementInfoConfirmField,
+  TimeConditionType,
   TradeField,
   TradingAccountField,
+  VolumeConditionType,
 } from "@napi-ctp/types";
 import { CTPProvider } from "./provider.js";
-import { isValidPrice, parseSymbol } from "./utils.js";
+import {
+  type CancelOrderRequest,
+  type PlaceOrderRequest,
+  type ResyncSnapshot,
+  diffResyncOrders,
+  diffResyncPositions,
+  settleResyncRequests,
+  takeResyncSnapshot,
+} from "./resync.js";
+import { isValidOrderOptions, isValidPrice, parseSymbol } from "./utils.js";
+import {
+  type PositionInfo,
+  calcPosition,
+  createPositionInfo,
+  freezePosition,
+  recordPending,
+  recoverPending,
+  toPositionData,
+  unfreezePosition,
+} from "./position.js";
 import type {
   CommissionRate,
   InstrumentData,
@@ -42,16 +63,21 @@ import type {
   OptionsType,
   OrderData,
   OrderFlag,
+  OrderOptions,
   OrderStatistic,
   OrderStatus,
   PositionData,
   PositionDetail,
   PriceRange,
   ProductType,
+  ResyncChanges,
+  ResyncTrade,
   SideType,
   TickData,
+  TimeInForce,
   TradeData,
   TradingAccount,
+  VolumeCondition,
   Writeable,
 } from "./typedef.js";
 import type {
@@ -71,7 +97,6 @@ import type {
   ITradingAccountsReceiver,
 } from "./interfaces.js";
 
-type PositionInfo = Writeable<PositionData>;
 type OrderStat = Writeable<OrderStatistic>;
 
 type MarginRateQuery = {
@@ -90,6 +115,7 @@ type MarketOrder = {
   side: SideType;
   volume: number;
   receiver: IPlaceOrderResultReceiver;
+  options?: OrderOptions;
 };
 
 export type CTPUserInfo = {
@@ -118,6 +144,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
   private orderRef: number;
   private accountsQueryTime: number;
   private positionDetailsChanged: boolean;
+  private resyncSnapshot?: ResyncSnapshot;
   private readonly fastQueryLastTick?: FastQueryLastTickFunc;
   private readonly userInfo: CTPUserInfo;
   private readonly receivers: IOrderReceiver[];
@@ -129,8 +156,8 @@ export class Trader extends CTPProvider implements ITraderProvider {
   private readonly trades: Map<string, TradeField[]>;
   private readonly marginRates: Map<string, InstrumentMarginRateField>;
   private readonly commRates: Map<string, InstrumentCommissionRateField>;
-  private readonly placeOrders: Map<number, IPlaceOrderResultReceiver>;
-  private readonly cancelOrders: Map<number, ICancelOrderResultReceiver>;
+  private readonly placeOrders: Map<number, PlaceOrderRequest>;
+  private readonly cancelOrders: Map<number, CancelOrderRequest>;
   private readonly marketOrdersQueue: Map<string, Denque<MarketOrder>>;
   private readonly priceLimit: Map<string, PriceRange>;
   private readonly orderStatistics: Map<string, OrderStat>;
@@ -184,14 +211,20 @@ export class Trader extends CTPProvider implements ITraderProvider {
 
     this.traderApi = ctp.createTrader(this.flowPath, this.frontAddrs);
 
+    let fired = false;
+
     this.traderApi.on(ctp.TraderEvent.FrontConnected, () => {
       this._withRetry(() => this.traderApi!.reqAuthenticate(this.userInfo));
     });
 
     this.traderApi.on(ctp.TraderEvent.FrontDisconnected, () => {
       this._clearAllMarketOrders();
-      this.placeOrders.clear();
-      this.cancelOrders.clear();
+      this._clearAllPendingQueries();
+
+      if (fired && !this.resyncSnapshot) {
+        this.resyncSnapshot = this._takeResyncSnapshot();
+        lifecycle.onDisconnected?.();
+      }
     });
 
     this.traderApi.on<RspAuthenticateField>(
@@ -314,8 +347,6 @@ export class Trader extends CTPProvider implements ITraderProvider {
       },
     );
 
-    let fired = false;
-
     this.traderApi.on<InvestorPositionField>(
       ctp.TraderEvent.RspQryInvestorPosition,
       (position, options) => {
@@ -361,9 +392,16 @@ export class Trader extends CTPProvider implements ITraderProvider {
         }
 
         if (options.isLast) {
+          this._applyOpenOrders();
+
           if (!fired) {
             fired = true;
             lifecycle.onOpen();
+          } else if (this.resyncSnapshot) {
+            const changes = this._resync(this.resyncSnapshot);
+
+            this.resyncSnapshot = undefined;
+            lifecycle.onReconnected?.(changes);
           }
 
           if (this.accountsQueue.size() > 0) {
@@ -388,6 +426,13 @@ export class Trader extends CTPProvider implements ITraderProvider {
       const orderId = this._calcOrderId(order);
       const current = this.orders.get(orderId);
 
+      if (
+        order.FrontID === this.frontId &&
+        order.SessionID === this.sessionId
+      ) {
+        this.placeOrders.delete(order.RequestID);
+      }
+
       if (current) {
         if (
           order.OrderSubmitStatus === current.OrderSubmitStatus &&
@@ -399,6 +444,10 @@ export class Trader extends CTPProvider implements ITraderProvider {
 
       this.orders.set(orderId, order);
 
+      if (this.resyncSnapshot) {
+        return;
+      }
+
       switch (this._calcOrderStatus(order)) {
         case "submitted":
           {
@@ -447,6 +496,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
           {
             const orderData = this._toOrderData(order);
             const symbol = this._toSymbol(order.InstrumentID);
+            const rest = order.VolumeTotalOriginal - order.VolumeTraded;
 
             if (symbol) {
               if (orderData.offset === "open") {
@@ -454,14 +504,14 @@ export class Trader extends CTPProvider implements ITraderProvider {
                   symbol,
                   orderData.side,
                   orderData.offset,
-                  orderData.volume,
+                  rest,
                 );
               } else {
                 this._unfreezePosition(
                   symbol,
                   orderData.side,
                   orderData.offset,
-                  orderData.volume,
+                  rest,
                 );
               }
 
@@ -470,6 +520,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
               statistic.cancels += 1;
             }
 
+            this._releaseCancelOrders(orderId);
             this.receivers.forEach((receiver) => receiver.onCancel(orderData));
           }
           break;
@@ -496,6 +547,10 @@ export class Trader extends CTPProvider implements ITraderProvider {
       const trades = this.trades.get(orderId);
 
       if (trades) {
+        if (trades.some((current) => current.TradeID === trade.TradeID)) {
+          return;
+        }
+
         trades.push(trade);
       } else {
         this.trades.set(orderId, [trade]);
@@ -503,6 +558,10 @@ export class Trader extends CTPProvider implements ITraderProvider {
 
       this.positionDetailsChanged = true;
 
+      if (this.resyncSnapshot) {
+        return;
+      }
+
       const order = this.orders.get(orderId);
 
       if (order) {
@@ -652,12 +711,12 @@ export class Trader extends CTPProvider implements ITraderProvider {
       ctp.TraderEvent.RspOrderInsert,
       (order, options) => {
         if (options.rspInfo && order && options.requestId && options.isLast) {
-          const receiver = this.placeOrders.get(options.requestId);
+          const request = this.placeOrders.get(options.requestId);
 
-          if (receiver) {
+          if (request) {
             this.placeOrders.delete(options.requestId);
 
-            receiver.onPlaceOrderError(
+            request.receiver.onPlaceOrderError(
               `${options.rspInfo.ErrorID}: ${options.rspInfo.ErrorMsg}`,
             );
           }
@@ -669,12 +728,12 @@ export class Trader extends CTPProvider implements ITraderProvider {
       ctp.TraderEvent.RspOrderAction,
       (order, options) => {
         if (options.rspInfo && order && options.requestId && options.isLast) {
-          const receiver = this.cancelOrders.get(options.requestId);
+          const request = this.cancelOrders.get(options.requestId);
 
-          if (receiver) {
+          if (request) {
             this.cancelOrders.delete(options.requestId);
 
-            receiver.onCancelOrderError(
+            request.receiver.onCancelOrderError(
               `${options.rspInfo.ErrorID}: ${options.rspInfo.ErrorMsg}`,
             );
           }
@@ -730,6 +789,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
                   order.volume,
                   upperPrice,
                   order.receiver,
+                  order.options,
                 );
                 break;
 
@@ -741,6 +801,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
                   order.volume,
                   lowerPrice,
                   order.receiver,
+                  order.options,
                 );
                 break;
             }
@@ -993,6 +1054,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
     volume: number,
     price: number,
     receiver: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
   ) {
     const [instrumentId, exchangeId] = parseSymbol(symbol);
     const instrument = this.instruments.get(instrumentId);
@@ -1019,8 +1081,9 @@ export class Trader extends CTPProvider implements ITraderProvider {
         ExchangeID: instrument.ExchangeID,
         LimitPrice: price,
         VolumeTotalOriginal: volume,
-        VolumeCondition: ctp.VolumeConditionType.AV,
-        TimeCondition: ctp.TimeConditionType.GFD,
+        VolumeCondition: this._toVolumeCondition(options?.volumeCondition),
+        TimeCondition: this._toTimeCondition(options?.timeInForce),
+        MinVolume: options?.minVolume ?? 0,
         Direction: this._toDirection(side),
         OrderPriceType: ctp.OrderPriceTypeType.LimitPrice,
         CombOffsetFlag: this._toOffsetFlag(offset),
@@ -1040,10 +1103,10 @@ export class Trader extends CTPProvider implements ITraderProvider {
 
       statistic.places += 1;
 
-      this.placeOrders.set(requestId, receiver);
-
       const receiptId = `${this.frontId}:${this.sessionId}:${orderRef}`;
 
+      this.placeOrders.set(requestId, { receiptId, receiver });
+
       receiver.onPlaceOrderSent(receiptId);
 
       return receiptId;
@@ -1062,12 +1125,147 @@ export class Trader extends CTPProvider implements ITraderProvider {
     this.marketOrdersQueue.clear();
   }
 
+  private _releaseCancelOrders(orderId: string) {
+    this.cancelOrders.forEach((request, requestId) => {
+      if (request.orderId === orderId) {
+        this.cancelOrders.delete(requestId);
+      }
+    });
+  }
+
+  private _clearAllPendingQueries() {
+    const marginRates = this.marginRatesQueue.toArray();
+    const commRates = this.commRatesQueue.toArray();
+    const accounts = this.accountsQueue.toArray();
+    const positionDetails = this.positionDetailsQueue.toArray();
+
+    this.marginRatesQueue.clear();
+    this.commRatesQueue.clear();
+    this.accountsQueue.clear();
+    this.positionDetailsQueue.clear();
+
+    marginRates.forEach((query) => query.receiver.onMarginRate(undefined));
+    commRates.forEach((query) => query.receiver.onCommissionRate(undefined));
+    accounts.forEach((receiver) => receiver.onTradingAccounts(undefined));
+    positionDetails.forEach((receiver) =>
+      receiver.onPositionDetails(undefined),
+    );
+  }
+
+  private _takeResyncSnapshot() {
+    return takeResyncSnapshot(
+      Array.from(this.orders.values(), this._toOrderData, this),
+      Array.from(this.positions.values(), this._toPositionData, this),
+      Array.from(this.placeOrders.keys()),
+      Array.from(this.cancelOrders.keys()),
+    );
+  }
+
+  private _resync(snapshot: ResyncSnapshot): ResyncChanges {
+    const orders = Array.from(this.orders.values(), this._toOrderData, this);
+    const changes = diffResyncOrders(snapshot, orders);
+    const trades: ResyncTrade[] = [];
+
+    changes.forEach((change) => {
+      const { order } = change;
+      const [instrumentId] = parseSymbol(order.symbol);
+      const symbol = this._toSymbol(instrumentId);
+      const statistic = symbol ? this._ensureOrderStatistic(symbol) : undefined;
+
+      if (change.entrusted) {
+        if (statistic) {
+          statistic.entrusts += 1;
+        }
+
+        this.receivers.forEach((receiver) => receiver.onEntrust(order));
+      }
+
+      change.trades.forEach((trade) => {
+        trades.push(Object.freeze({ order, trade }));
+        this.receivers.forEach((receiver) => receiver.onTrade(order, trade));
+      });
+
+      if (!change.statusChanged) {
+        return;
+      }
+
+      switch (order.status) {
+        case "filled":
+          if (statistic) {
+            statistic.filleds += 1;
+          }
+          break;
+
+        case "canceled":
+          if (statistic) {
+            statistic.cancels += 1;
+          }
+
+          this._releaseCancelOrders(order.id);
+          this.receivers.forEach((receiver) => receiver.onCancel(order));
+          break;
+
+        case "rejected":
+          if (statistic) {
+            statistic.rejects += 1;
+          }
+
+          this.receivers.forEach((receiver) => receiver.onReject(order));
+          break;
+      }
+    });
+
+    const positions = diffResyncPositions(
+      snapshot,
+      Array.from(this.positions.values(), this._toPositionData, this),
+    );
+
+    if (trades.length > 0) {
+      this.positionDetailsChanged = true;
+    }
+
+    settleResyncRequests(snapshot, orders, this.placeOrders, this.cancelOrders);
+
+    return Object.freeze({
+      orders: changes.map((change) => change.order),
+      trades: trades,
+      positions: positions,
+    });
+  }
+
+  private _applyOpenOrders() {
+    this.orders.forEach((order) => {
+      const orderData = this._toOrderData(order);
+
+      if (
+        orderData.status !== "submitted" &&
+        orderData.status !== "partially-filled"
+      ) {
+        return;
+      }
+
+      const symbol = this._toSymbol(order.InstrumentID);
+      const rest = order.VolumeTotalOriginal - order.VolumeTraded;
+
+      if (!symbol || rest <= 0) {
+        return;
+      }
+
+      if (orderData.offset === "open") {
+        this._recordPending(symbol, orderData.side, orderData.offset, rest);
+      } else {
+        this._freezePosition(symbol, orderData.side, orderData.offset, rest);
+      }
+    });
+  }
+
   private _placeMarketOrder(
     symbol: string,
     offset: OffsetType,
     side: SideType,
     volume: number,
     receiver: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
   ) {
     const [instrumentId, exchangeId] = parseSymbol(symbol);
     const instrument = this.instruments.get(instrumentId);
@@ -1094,6 +1292,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
             volume,
             priceRange.upper,
             receiver,
+            options,
           );
           break;
 
@@ -1105,6 +1304,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
             volume,
             priceRange.lower,
             receiver,
+            options,
           );
           break;
       }
@@ -1141,6 +1341,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
               volume,
               upperPrice,
               receiver,
+              options,
             );
             break;
 
@@ -1152,6 +1353,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
               volume,
               lowerPrice,
               receiver,
+              options,
             );
             break;
         }
@@ -1163,7 +1365,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
     let queue = this.marketOrdersQueue.get(instrumentId);
 
     if (queue) {
-      queue.push({ symbol, offset, side, volume, receiver });
+      queue.push({ symbol, offset, side, volume, receiver, options });
       return;
     }
 
@@ -1188,7 +1390,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
         return;
       }
 
-      queue.push({ symbol, offset, side, volume, receiver });
+      queue.push({ symbol, offset, side, volume, receiver, options });
     });
   }
 
@@ -1200,12 +1402,18 @@ export class Trader extends CTPProvider implements ITraderProvider {
     price: number,
     flag: OrderFlag,
     receiver: IPlaceOrderResultReceiver,
+    options?: OrderOptions,
   ) {
     if (volume <= 0) {
       receiver.onPlaceOrderError("Invalid Volume");
       return;
     }
 
+    if (!isValidOrderOptions(volume, options)) {
+      receiver.onPlaceOrderError("Invalid Order Options");
+      return;
+    }
+
     switch (flag) {
       case "limit":
         return this._placeLimitOrder(
@@ -1215,10 +1423,18 @@ export class Trader extends CTPProvider implements ITraderProvider {
           volume,
           price,
           receiver,
+          options,
         );
 
       case "market":
-        return this._placeMarketOrder(symbol, offset, side, volume, receiver);
+        return this._placeMarketOrder(
+          symbol,
+          offset,
+          side,
+          volume,
+          receiver,
+          options,
+        );
     }
   }
 
@@ -1252,7 +1468,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
         return;
       }
 
-      this.cancelOrders.set(requestId, receiver);
+      this.cancelOrders.set(requestId, { orderId: order.id, receiver });
 
       receiver.onCancelOrderSent();
     });
@@ -1286,6 +1502,8 @@ export class Trader extends CTPProvider implements ITraderProvider {
         return "filled";
 
       case ctp.OrderStatusType.Canceled:
+      case ctp.OrderStatusType.PartTradedNotQueueing:
+      case ctp.OrderStatusType.NoTradeNotQueueing:
         switch (order.OrderSubmitStatus) {
           case ctp.OrderSubmitStatusType.InsertRejected:
           case ctp.OrderSubmitStatusType.CancelRejected:
@@ -1359,6 +1577,54 @@ export class Trader extends CTPProvider implements ITraderProvider {
     }
   }
 
+  private _calcTimeInForce(timeCondition: TimeConditionType): TimeInForce {
+    switch (timeCondition) {
+      case ctp.TimeConditionType.IOC:
+        return "ioc";
+
+      default:
+        return "gfd";
+    }
+  }
+
+  private _toTimeCondition(timeInForce: TimeInForce = "gfd") {
+    switch (timeInForce) {
+      case "gfd":
+        return ctp.TimeConditionType.GFD;
+
+      case "ioc":
+        return ctp.TimeConditionType.IOC;
+    }
+  }
+
+  private _calcVolumeCondition(
+    volumeCondition: VolumeConditionType,
+  ): VolumeCondition {
+    switch (volumeCondition) {
+      case ctp.VolumeConditionType.MV:
+        return "min";
+
+      case ctp.VolumeConditionType.CV:
+        return "all";
+
+      default:
+        return "any";
+    }
+  }
+
+  private _toVolumeCondition(volumeCondition: VolumeCondition = "any") {
+    switch (volumeCondition) {
+      case "any":
+        return ctp.VolumeConditionType.AV;
+
+      case "min":
+        return ctp.VolumeConditionType.MV;
+
+      case "all":
+        return ctp.VolumeConditionType.CV;
+    }
+  }
+
   private _calcProductType(productClass: ProductClassType): ProductType {
     switch (productClass) {
       case ctp.ProductClassType.Futures:
@@ -1397,19 +1663,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
     let position = this.positions.get(symbol);
 
     if (!position) {
-      position = {
-        symbol: symbol,
-        today: {
-          long: { position: 0, frozen: 0 },
-          short: { position: 0, frozen: 0 },
-        },
-        history: {
-          long: { position: 0, frozen: 0 },
-          short: { position: 0, frozen: 0 },
-        },
-        pending: { long: 0, short: 0 },
-      };
-
+      position = createPositionInfo(symbol);
       this.positions.set(symbol, position);
     }
 
@@ -1442,133 +1696,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
     volume: number,
   ) {
     const position = this._ensurePositionInfo(symbol);
-
-    switch (offset) {
-      case "open":
-        switch (side) {
-          case "long":
-            position.today.long.position += volume;
-
-            if (position.pending.long >= volume) {
-              position.pending.long -= volume;
-            } else {
-              position.pending.long = 0;
-            }
-            break;
-
-          case "short":
-            position.today.short.position += volume;
-
-            if (position.pending.short >= volume) {
-              position.pending.short -= volume;
-            } else {
-              position.pending.short = 0;
-            }
-            break;
-        }
-        break;
-
-      case "close":
-        switch (side) {
-          case "long":
-            if (position.history.short.position >= volume) {
-              position.history.short.position -= volume;
-            } else {
-              const rest = volume - position.history.short.position;
-              position.history.short.position -=
-                position.history.short.position;
-
-              if (rest > 0) {
-                if (position.today.short.position >= rest) {
-                  position.today.short.position -= rest;
-                } else {
-                  position.today.short.position = 0;
-                }
-              }
-            }
-
-            if (position.history.short.frozen >= volume) {
-              position.history.short.frozen -= volume;
-            } else {
-              const rest = volume - position.history.short.frozen;
-              position.history.short.frozen -= position.history.short.frozen;
-
-              if (rest > 0) {
-                if (position.today.short.frozen >= rest) {
-                  position.today.short.frozen -= rest;
-                } else {
-                  position.today.short.frozen = 0;
-                }
-              }
-            }
-            break;
-
-          case "short":
-            if (position.history.long.position >= volume) {
-              position.history.long.position -= volume;
-            } else {
-              const rest = volume - position.history.long.position;
-              position.history.long.position -= position.history.long.position;
-
-              if (rest > 0) {
-                if (position.today.long.position >= rest) {
-                  position.today.long.position -= rest;
-                } else {
-                  position.today.long.position = 0;
-                }
-              }
-            }
-
-            if (position.history.long.frozen >= volume) {
-              position.history.long.frozen -= volume;
-            } else {
-              const rest = volume - position.history.long.frozen;
-              position.history.long.frozen -= position.history.long.frozen;
-
-              if (rest > 0) {
-                if (position.today.long.frozen >= rest) {
-                  position.today.long.frozen -= rest;
-                } else {
-                  position.today.long.frozen = 0;
-                }
-              }
-            }
-            break;
-        }
-        break;
-
-      case "close-today":
-        switch (side) {
-          case "long":
-            if (position.today.short.position >= volume) {
-              position.today.short.position -= volume;
-            } else {
-              position.today.short.position = 0;
-            }
-
-            if (position.today.short.frozen >= volume) {
-              position.today.short.frozen -= volume;
-            } else {
-              position.today.short.frozen = 0;
-            }
-            break;
-
-          case "short":
-            if (position.today.long.position >= volume) {
-              position.today.long.position -= volume;
-            } else {
-              position.today.long.position = 0;
-            }
-
-            if (position.today.long.frozen >= volume) {
-              position.today.long.frozen -= volume;
-            } else {
-              position.today.long.frozen = 0;
-            }
-            break;
-        }
-        break;
-    }
+    calcPosition(position, side, offset, volume);
   }
 
   private _recordPending(
@@ -1582,16 +1710,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
     }
 
     const position = this._ensurePositionInfo(symbol);
-
-    switch (side) {
-      case "long":
-        position.pending.long += volume;
-        break;
-
-      case "short":
-        position.pending.short += volume;
-        break;
-    }
+    recordPending(position, side, offset, volume);
   }
 
   private _recoverPending(
@@ -1600,25 +1719,13 @@ export class Trader extends CTPProvider implements ITraderProvider {
     offset: OffsetType,
     volume: number,
   ) {
-    if (offset !== "open") {
-      return;
-    }
-
     const position = this.positions.get(symbol);
 
     if (!position) {
       return;
     }
 
-    switch (side) {
-      case "long":
-        position.pending.long -= volume;
-        break;
-
-      case "short":
-        position.pending.short -= volume;
-        break;
-    }
+    recoverPending(position, side, offset, volume);
   }
 
   private _freezePosition(
@@ -1633,31 +1740,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
       return;
     }
 
-    switch (offset) {
-      case "close":
-        switch (side) {
-          case "long":
-            position.history.short.frozen += volume;
-            break;
-
-          case "short":
-            position.history.long.frozen += volume;
-            break;
-        }
-        break;
-
-      case "close-today":
-        switch (side) {
-          case "long":
-            position.today.short.frozen += volume;
-            break;
-
-          case "short":
-            position.today.long.frozen += volume;
-            break;
-        }
-        break;
-    }
+    freezePosition(position, side, offset, volume);
   }
 
   private _unfreezePosition(
@@ -1672,48 +1755,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
       return;
     }
 
-    switch (offset) {
-      case "close":
-        switch (side) {
-          case "long":
-            if (position.history.short.frozen >= volume) {
-              position.history.short.frozen -= volume;
-            } else {
-              position.history.short.frozen = 0;
-            }
-
-            break;
-
-          case "short":
-            if (position.history.long.frozen >= volume) {
-              position.history.long.frozen -= volume;
-            } else {
-              position.history.long.frozen = 0;
-            }
-            break;
-        }
-        break;
-
-      case "close-today":
-        switch (side) {
-          case "long":
-            if (position.today.short.frozen >= volume) {
-              position.today.short.frozen -= volume;
-            } else {
-              position.today.short.frozen = 0;
-            }
-            break;
-
-          case "short":
-            if (position.today.long.frozen >= volume) {
-              position.today.long.frozen -= volume;
-            } else {
-              position.today.long.frozen = 0;
-            }
-            break;
-        }
-        break;
-    }
+    unfreezePosition(position, side, offset, volume);
   }
 
   private _toTradeData(trade: TradeField): TradeData {
@@ -1741,6 +1783,8 @@ export class Trader extends CTPProvider implements ITraderProvider {
       date: parseInt(order.InsertDate),
       time: this._parseTime(order.InsertTime),
       flag: this._calcOrderFlag(order.OrderPriceType),
+      timeInForce: this._calcTimeInForce(order.TimeCondition),
+      volumeCondition: this._calcVolumeCondition(order.VolumeCondition),
       side: this._calcSideType(order.Direction),
       offset: this._calcOffsetType(order.CombOffsetFlag as OffsetFlagType),
       price: order.LimitPrice,
@@ -1842,19 +1886,7 @@ export class Trader extends CTPProvider implements ITraderProvider {
   }
 
   private _toPositionData(position: PositionInfo): PositionData {
-    return Object.freeze({
-      symbol: position.symbol,
-
-      today: Object.freeze({
-        long: Object.freeze({ ...position.today.long }),
-        short: Object.freeze({ ...position.today.short }),
-      }),
-      history: Object.freeze({
-        long: Object.freeze({ ...position.history.long }),
-        short: Object.freeze({ ...position.history.short }),
-      }),
-      pending: Object.freeze({ ...position.pending }),
-    });
+    return toPositionData(position);
   }
 
   private _processMarginRatesQueue() {
@@ -1878,6 +1910,8 @@ export class Trader extends CTPProvider implements ITraderProvider {
             InstrumentID: instrumentId,
           }),
         );
+
+        break;
       }
     }
   }
@@ -1902,6 +1936,8 @@ export class Trader extends CTPProvider implements ITraderProvider {
             InstrumentID: instrumentId,
           }),
         );
+
+        break;
       }
     }
   }
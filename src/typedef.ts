@@ -19,6 +19,39 @@ export type OrderBook = Readonly<{
   bids: TapeSide;
 }>;
 
+export type BookSide = "ask" | "bid";
+
+export type BookEventType = "add" | "remove" | "change";
+
+export type BookEvent = Readonly<{
+  type: BookEventType;
+  side: BookSide;
+  price: number;
+  volume: number;
+  delta: number;
+}>;
+
+export type PriceQueue = Readonly<{
+  side: BookSide;
+  price: number;
+  volume: number;
+  added: number;
+  removed: number;
+  updates: number;
+}>;
+
+export type QueuePosition = Readonly<{
+  orderId: string;
+  symbol: string;
+  side: SideType;
+  price: number;
+  volume: number;
+  ahead: number;
+  initialAhead: number;
+  fillable: number;
+  fillProbability: number;
+}>;
+
 export type PriceRange = Readonly<{
   upper: number;
   lower: number;
@@ -73,6 +106,18 @@ export type TapeData = Readonly<{
   amountDelta: number;
 }>;
 
+export type TapeStatistic = Readonly<{
+  ticks: number;
+  volume: number;
+  counts: Readonly<Partial<Record<TapeStatus, number>>>;
+  volumes: Readonly<Partial<Record<TapeStatus, number>>>;
+  upInterest: number;
+  downInterest: number;
+  longPower: number;
+  shortPower: number;
+  powerRatio: number;
+}>;
+
 export type PositionCell = Readonly<{
   position: number;
   frozen: number;
@@ -101,10 +146,42 @@ export type PositionDetail = Readonly<{
   margin: number;
 }>;
 
+export type BookCell = Readonly<{
+  today: number;
+  history: number;
+  price: number;
+}>;
+
+export type BookPosition = Readonly<{
+  symbol: string;
+  long: BookCell;
+  short: BookCell;
+  lastPrice: number;
+  closeProfit: number;
+  positionProfit: number;
+}>;
+
+export type PositionMismatch = Readonly<{
+  symbol: string;
+  side: SideType;
+  book: number;
+  account: number;
+}>;
+
 export type OffsetType = "open" | "close" | "close-today";
 
 export type OrderFlag = "limit" | "market";
 
+export type TimeInForce = "gfd" | "ioc";
+
+export type VolumeCondition = "any" | "min" | "all";
+
+export type OrderOptions = Readonly<{
+  timeInForce?: TimeInForce;
+  volumeCondition?: VolumeCondition;
+  minVolume?: number;
+}>;
+
 export type OrderStatus =
   | "submitted"
   | "partially-filled"
@@ -127,6 +204,8 @@ export type OrderData = Readonly<{
   date: number;
   time: number;
   flag: OrderFlag;
+  timeInForce: TimeInForce;
+  volumeCondition: VolumeCondition;
   side: SideType;
   offset: OffsetType;
   price: number;
@@ -137,6 +216,68 @@ export type OrderData = Readonly<{
   cancelTime?: number;
 }>;
 
+export type StopOrderType = "stop" | "stop-limit" | "trailing-stop";
+
+export type StopTriggerSource = "last" | "bid" | "ask";
+
+export type StopOrderStatus = "waiting" | "triggered" | "canceled" | "error";
+
+export type StopOrderParams = Readonly<{
+  type: StopOrderType;
+  source?: StopTriggerSource;
+  stopPrice?: number;
+  limitPrice?: number;
+  trailingPrice?: number;
+  trailingTicks?: number;
+  options?: OrderOptions;
+}>;
+
+export type StopOrderData = Readonly<{
+  id: string;
+  symbol: string;
+  type: StopOrderType;
+  source: StopTriggerSource;
+  side: SideType;
+  offset: OffsetType;
+  volume: number;
+  stopPrice?: number;
+  limitPrice?: number;
+  trailing?: number;
+  status: StopOrderStatus;
+  triggerTime?: number;
+  triggerPrice?: number;
+}>;
+
+export type BracketParams = Readonly<{
+  takeProfit?: number;
+  stopLoss?: number;
+  stopLimit?: number;
+  source?: StopTriggerSource;
+  options?: OrderOptions;
+}>;
+
+export type BracketOrderStatus = "working" | "done" | "canceled" | "error";
+
+export type ClosePreference = "history-first" | "today-first";
+
+export type CloseVolume = Readonly<{
+  offset: OffsetType;
+  volume: number;
+}>;
+
+export type ResyncTrade = Readonly<{
+  order: OrderData;
+  trade: TradeData;
+}>;
+
+export type LinkType = "market" | "trader";
+
+export type ResyncChanges = Readonly<{
+  orders: OrderData[];
+  trades: ResyncTrade[];
+  positions: PositionData[];
+}>;
+
 export type OrderStatistic = Readonly<{
   symbol: string;
   places: number;
@@ -221,4 +362,80 @@ export type BarData = Readonly<{
   sellVolumes: PriceVolume;
 }>;
 
+export type TradingSession = Readonly<{
+  open: number;
+  close: number;
+  night: boolean;
+}>;
+
+export type BarType =
+  | "second"
+  | "minute"
+  | "hour"
+  | "day"
+  | "volume"
+  | "amount"
+  | "tick"
+  | "range"
+  | "renko";
+
+export type BarSpec = Readonly<{
+  type: BarType;
+  size: number;
+}>;
+
+export type ImbalanceSide = "buy" | "sell";
+
+export type Imbalance = Readonly<{
+  side: ImbalanceSide;
+  price: number;
+  volume: number;
+  opposite: number;
+}>;
+
+export type StackedImbalance = Readonly<{
+  side: ImbalanceSide;
+  low: number;
+  high: number;
+  levels: number;
+}>;
+
+export type ValueArea = Readonly<{
+  poc: number;
+  high: number;
+  low: number;
+  volume: number;
+}>;
+
+export type OrderFlowSignalType = "absorption" | "exhaustion";
+
+export type OrderFlowSignal = Readonly<{
+  type: OrderFlowSignalType;
+  side: ImbalanceSide;
+  price: number;
+  volume: number;
+}>;
+
+export type TapeVolumes = Readonly<Partial<Record<TapeStatus, number>>>;
+
+export type OrderFlowData = Readonly<{
+  bar: BarData;
+  cumulativeDelta: number;
+  valueArea: ValueArea;
+  imbalances: Imbalance[];
+  stackedImbalances: StackedImbalance[];
+  signals: OrderFlowSignal[];
+  tapeVolumes: TapeVolumes;
+}>;
+
+export type VolumeProfile = Readonly<{
+  symbol: string;
+  tradingDay: number;
+  volume: number;
+  delta: number;
+  valueArea: ValueArea;
+  buyVolumes: PriceVolume;
+  sellVolumes: PriceVolume;
+}>;
+
 export type Writeable<T> = { -readonly [P in keyof T]: Writeable<T[P]> };
@@ -0,0 +1,36 @@
+/*
+ * utils.spec.ts
+ *
+ * Copyright (c) 2025 Xiongfei Shi
+ *
+ * Author: Xiongfei Shi <xiongfei.shi(a)icloud.com>
+ * License: Apache-2.0
+ *
+ * https://github.com/shixiongfei/hft.js
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isValidOrderOptions } from "./utils.js";
+
+describe("isValidOrderOptions", () => {
+  it("accepts the default good-for-day order", () => {
+    assert.equal(isValidOrderOptions(5), true);
+  });
+
+  it("requires ioc for volume conditions", () => {
+    assert.equal(isValidOrderOptions(5, { volumeCondition: "all" }), false);
+    assert.equal(
+      isValidOrderOptions(5, { timeInForce: "ioc", volumeCondition: "all" }),
+      true,
+    );
+  });
+
+  it("bounds the minimum volume by the order volume", () => {
+    const options = { timeInForce: "ioc", volumeCondition: "min" } as const;
+
+    assert.equal(isValidOrderOptions(5, options), false);
+    assert.equal(isValidOrderOptions(5, { ...options, minVolume: 5 }), true);
+    assert.equal(isValidOrderOptions(5, { ...options, minVolume: 6 }), false);
+  });
+});
@@ -9,7 +9,12 @@
  * https://github.com/shixiongfei/hft.js
  */
 
-import type { BarData, OrderFlag } from "./typedef.js";
+import type {
+  BarData,
+  ClosePreference,
+  OrderFlag,
+  OrderOptions,
+} from "./typedef.js";
 import type { BarInfo } from "./bar.js";
 import type {
   IPlaceOrderResultReceiver,
@@ -20,11 +25,48 @@ import type {
 export const isValidPrice = (x: number) => x !== Number.MAX_VALUE && x !== 0;
 export const isValidVolume = (x: number) => x !== Number.MAX_VALUE && x !== 0;
 
+export const isValidOrderOptions = (volume: number, options?: OrderOptions) => {
+  const timeInForce = options?.timeInForce ?? "gfd";
+  const volumeCondition = options?.volumeCondition ?? "any";
+
+  if (volumeCondition !== "any" && timeInForce !== "ioc") {
+    return false;
+  }
+
+  if (volumeCondition === "min") {
+    const minVolume = options?.minVolume ?? 0;
+    return minVolume > 0 && minVolume <= volume;
+  }
+
+  return true;
+};
+
 export const parseSymbol = (symbol: string): [string, string] => {
   const [instrumentId = "", exchangeId = ""] = symbol.split(".");
   return [instrumentId, exchangeId];
 };
 
+export const parseTime = (time: string) => {
+  const [hh = 0, mm = 0, ss = 0] = time.split(":").map((x) => parseInt(x));
+  return hh * 10000 + mm * 100 + ss;
+};
+
+export const timeToSeconds = (time: number) =>
+  Math.floor(time / 10000) * 3600 +
+  (Math.floor(time / 100) % 100) * 60 +
+  Math.floor(time % 100);
+
+export const secondsToTime = (seconds: number) =>
+  Math.floor(seconds / 3600) * 10000 +
+  (Math.floor(seconds / 60) % 60) * 100 +
+  (seconds % 60);
+
+// Night sessions belong to the next trading day, so they sort before 18:00.
+export const timeToTradingSeconds = (time: number) => {
+  const seconds = timeToSeconds(time);
+  return seconds >= 64800 ? seconds - 86400 : seconds;
+};
+
 export const getBarBuyVolume = (bar: BarData, price: number) =>
   bar.buyVolumes[price] ?? 0;
 
@@ -40,7 +82,7 @@ export const mergeBarData = (bars: BarData[]): BarData => {
   }
 
   if (bars.length === 1) {
-    return bars[1]!;
+    return bars[0]!;
   }
 
   const bar: BarInfo = {
@@ -53,7 +95,7 @@ export const mergeBarData = (bars: BarData[]): BarData => {
     lowPrice: bars[0]!.lowPrice,
     closePrice: bars[0]!.closePrice,
     volume: bars[0]!.volume,
-    amount: bars[0]!.volume,
+    amount: bars[0]!.amount,
     delta: bars[0]!.delta,
     poc: bars[0]!.poc,
     buyVolumes: { ...bars[0]!.buyVolumes },
@@ -113,8 +155,9 @@ export const buyOpen = (
   symbol: string,
   volume: number,
   price: number,
-  receiver: IPlaceOrderResultReceiver,
+  receiver?: IPlaceOrderResultReceiver,
   flag: OrderFlag = "limit",
+  options?: OrderOptions,
 ) =>
   engine.placeOrder(
     strategy,
@@ -125,6 +168,7 @@ export const buyOpen = (
     price,
     price > 0 && flag === "limit" ? "limit" : "market",
     receiver,
+    options,
   );
 
 export const buyClose = (
@@ -134,8 +178,9 @@ export const buyClose = (
   volume: number,
   price: number,
   isToday: boolean,
-  receiver: IPlaceOrderResultReceiver,
+  receiver?: IPlaceOrderResultReceiver,
   flag: OrderFlag = "limit",
+  options?: OrderOptions,
 ) =>
   engine.placeOrder(
     strategy,
@@ -146,6 +191,30 @@ export const buyClose = (
     price,
     price > 0 && flag === "limit" ? "limit" : "market",
     receiver,
+    options,
+  );
+
+export const buyCloseAuto = (
+  engine: IRuntimeEngine,
+  strategy: IStrategy,
+  symbol: string,
+  volume: number,
+  price: number,
+  receiver?: IPlaceOrderResultReceiver,
+  flag: OrderFlag = "limit",
+  options?: OrderOptions,
+  preference?: ClosePreference,
+) =>
+  engine.closeAuto(
+    strategy,
+    symbol,
+    "long",
+    volume,
+    price,
+    price > 0 && flag === "limit" ? "limit" : "market",
+    receiver,
+    options,
+    preference,
   );
 
 export const sellOpen = (
@@ -154,8 +223,9 @@ export const sellOpen = (
   symbol: string,
   volume: number,
   price: number,
-  receiver: IPlaceOrderResultReceiver,
+  receiver?: IPlaceOrderResultReceiver,
   flag: OrderFlag = "limit",
+  options?: OrderOptions,
 ) =>
   engine.placeOrder(
     strategy,
@@ -166,6 +236,7 @@ export const sellOpen = (
     price,
     price > 0 && flag === "limit" ? "limit" : "market",
     receiver,
+    options,
   );
 
 export const sellClose = (
@@ -175,8 +246,9 @@ export const sellClose = (
   volume: number,
   price: number,
   isToday: boolean,
-  receiver: IPlaceOrderResultReceiver,
+  receiver?: IPlaceOrderResultReceiver,
   flag: OrderFlag = "limit",
+  options?: OrderOptions,
 ) =>
   engine.placeOrder(
     strategy,
@@ -187,4 +259,28 @@ export const sellClose = (
     price,
     price > 0 && flag === "limit" ? "limit" : "market",
     receiver,
+    options,
+  );
+
+export const sellCloseAuto = (
+  engine: IRuntimeEngine,
+  strategy: IStrategy,
+  symbol: string,
+  volume: number,
+  price: number,
+  receiver?: IPlaceOrderResultReceiver,
+  flag: OrderFlag = "limit",
+  options?: OrderOptions,
+  preference?: ClosePreference,
+) =>
+  engine.closeAuto(
+    strategy,
+    symbol,
+    "short",
+    volume,
+    price,
+    price > 0 && flag === "limit" ? "limit" : "market",
+    receiver,
+    options,
+    preference,
   );